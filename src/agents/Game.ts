@@ -1,14 +1,55 @@
-import { Agent, callable } from "agents";
+import { Agent, getAgentByName } from "agents";
 import {
   AILevel,
   AIPlayer,
+  BotLabel,
+  Clock,
+  FallbackReason,
   Game,
+  GameConfig,
+  Hint,
   HumanPlayer,
+  Move,
+  Persona,
+  Player,
+  Players,
   PlayerType,
+  Rematch,
+  ResultReason,
+  Series,
   SymbolType,
+  Variant,
 } from "@/types";
 import { BotPlayer } from "../bots/BotPlayer";
+import { BotBeginner } from "../bots/BotBeginner";
+import { BotIntermediate } from "../bots/BotIntermediate";
 import { BotExpert } from "../bots/BotExpert";
+import { BotPerfect, PERFECT_PLAY_SQUARES } from "../bots/BotPerfect";
+import { BotUltimate } from "../bots/BotUltimate";
+import { BotVariant } from "../bots/BotVariant";
+import { BotAdaptive } from "../bots/BotAdaptive";
+import { BotPersona } from "../bots/BotPersona";
+import { explainMove } from "../bots/HintReason";
+import { MoveCache } from "../bots/MoveCache";
+import { createModelProvider } from "@/models";
+import { HINTS_PER_GAME } from "@/lib/Hints";
+import { AI_CLOCK_MARGIN, AI_MOVE_BUDGET } from "@/lib/AIMoves";
+import { DEFAULT_STRENGTH } from "@/lib/Adaptive";
+import { CLASSIC_BOARD_SIZE, createBoard, nextTurn } from "@/lib/GameRules";
+import { createGameBoard, playMove } from "@/lib/GameEngine";
+import { withVariantDefaults } from "@/variants";
+import {
+  createClock,
+  endTurn,
+  startTurn,
+  validateTimeControl,
+} from "@/lib/Clock";
+import {
+  DISCONNECT_AFTER,
+  PRESENCE_CHECK_INTERVAL,
+  RECONNECT_GRACE_PERIOD,
+} from "@/lib/Presence";
+import { LobbyAgent } from "./Lobby";
 
 /**
  * GameState represents the complete state of a tic-tac-toe game.
@@ -16,11 +57,22 @@ import { BotExpert } from "../bots/BotExpert";
  */
 export type GameState = {
   slug: string;
+  /** Rule variant, kept alongside the game so lobby listings can show it */
+  variant: Variant;
   waitingForPlayers: boolean;
   inProgress: boolean;
   createdAt: string;
   updatedAt: string;
   game?: Game;
+  /** Present when the game is part of a best-of-N series */
+  series?: Series;
+  /** Rematch agreement, once either side has asked for one */
+  rematch?: Rematch;
+  /** Sides that have stopped sending heartbeats, with when they were
+   * marked as disconnected */
+  disconnected?: Partial<Record<SymbolType, string>>;
+  /** Hints each side has asked for; any at all flags the game as hint-assisted */
+  hintsUsed?: Partial<Record<SymbolType, number>>;
 };
 
 /**
@@ -29,9 +81,16 @@ export type GameState = {
  * 
  * Responsibilities:
  * - Maintain game state (board, players, turn, winner)
- * - Execute AI moves when appropriate
+ * - Validate and apply every move (turn order, seat ownership, occupied squares)
+ * - Run the clock in timed games, forfeiting a side that runs out of time
+ * - Track player heartbeats, forfeiting a side that leaves and doesn't return
+ * - Execute AI moves when appropriate, in the background, within each
+ *   level's time budget
+ * - Suggest moves to human players who ask for a hint
+ * - Report results against the AI, which adaptive AI tunes itself by
+ * - Tell the lobby when it starts and ends, so its game lists stay current
  * - Track move history in SQL storage
- * - Handle game lifecycle (setup, play, deletion)
+ * - Handle game lifecycle (setup, play, rematch, deletion)
  */
 export class GameAgent extends Agent<Env, GameState> {
   /**
@@ -40,6 +99,7 @@ export class GameAgent extends Agent<Env, GameState> {
    */
   initialState: GameState = {
     slug: "",
+    variant: Variant.CLASSIC,
     waitingForPlayers: true,
     inProgress: false,
     createdAt: new Date().toISOString(),
@@ -48,7 +108,8 @@ export class GameAgent extends Agent<Env, GameState> {
 
   /**
    * Template for a fresh game board and player configuration.
-   * By default, X is human and O is AI (Expert level), both pending.
+   * By default, X is human and O is AI (Expert level), both pending,
+   * on a classic 3x3 board.
    */
   initialGame: Game = {
     players: {
@@ -67,42 +128,649 @@ export class GameAgent extends Agent<Env, GameState> {
       } as AIPlayer,
     },
     currentTurn: SymbolType.X,
-    board: new Array(9).fill(null),
+    variant: Variant.CLASSIC,
+    boardSize: CLASSIC_BOARD_SIZE,
+    board: createBoard(CLASSIC_BOARD_SIZE),
     winner: undefined,
   };
 
+  /** Cancels the AI move being thought about, if any. Kept in memory only:
+   * a move interrupted by an eviction is simply never played. */
+  private aiMove?: AbortController;
+
   /**
    * Lifecycle hook called when the Durable Object is first created.
-   * Sets up the SQL database schema for storing move history.
+   * Sets up the SQL database schema for storing move history, the
+   * private seat tokens that prove which human owns which symbol (a seat
+   * held for the AI has a row with no token), the player ids of seated humans, when each was last seen, and the hints
+   * given to each side. Games saved before variants existed are brought
+   * up to date, so every reader finds a variant and a board size.
    */
   onStart(): void {
     this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS moves (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
+        moveNumber INTEGER NOT NULL,
         player TEXT NOT NULL,
+        piece TEXT NOT NULL,
         spaceTaken INTEGER NOT NULL,
         createdAt TEXT NOT NULL DEFAULT (datetime('now'))
       );`);
+    this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS seats (
+        symbol TEXT PRIMARY KEY,
+        token TEXT
+      );`);
+    this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS playerIds (
+        symbol TEXT PRIMARY KEY,
+        playerId TEXT NOT NULL
+      );`);
+    this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS hints (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        symbol TEXT NOT NULL,
+        moveNumber INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        createdAt TEXT NOT NULL
+      );`);
+    this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS presence (
+        symbol TEXT PRIMARY KEY,
+        lastSeen INTEGER NOT NULL
+      );`);
+
+    const { game } = this.state;
+    if (game && (!game.variant || !game.boardSize)) {
+      const upgraded = withVariantDefaults(game);
+      this.setState({
+        ...this.state,
+        variant: upgraded.variant,
+        game: upgraded,
+      });
+    }
   }
 
   /**
-   * Initializes a new game with the given slug identifier.
-   * If the AI has the first turn (X), automatically triggers the AI move.
-   * 
+   * Initializes a new game with the given slug identifier and configuration.
+   * Both seats start out pending; play begins once they are filled, by
+   * joining players, `seatAI` or `seatRematch`.
+   *
    * @param {Object} params - Setup parameters
    * @param {string} params.slug - Unique identifier for this game
+   * @param {GameConfig} params.config - Options chosen when creating the game
+   * @param {Series} [params.series] - The series this game belongs to, if any
+   * @throws {Error} If the variant is unknown, or the board size or time
+   *                 control is not playable
    */
-  setup({ slug }: { slug: string }): void {
+  setup({
+    slug,
+    config,
+    series,
+  }: {
+    slug: string;
+    config: GameConfig;
+    series?: Series;
+  }): void {
+    const board = createGameBoard(config);
+    if (config.timeControl) validateTimeControl(config.timeControl);
+
+    // Against a human, the second seat waits for them to join
+    const players: Players =
+      config.opponentType === PlayerType.HUMAN
+        ? {
+            ...this.initialGame.players,
+            O: {
+              name: "pending",
+              symbol: SymbolType.O,
+              type: PlayerType.HUMAN,
+              pending: true,
+            } as HumanPlayer,
+          }
+        : this.initialGame.players;
+
     this.setState({
       ...this.initialState,
-      game: this.initialGame,
+      variant: board.variant,
+      game: {
+        ...this.initialGame,
+        ...board,
+        players,
+        clock: config.timeControl && createClock(config.timeControl),
+      },
       slug,
+      series,
     });
+  }
 
-    if (this.isAIMove()) {
-      this.makeAIMove(this.aiPlayer()!);
+  /**
+   * Seats a human and issues the secret token for their seat. The token is
+   * kept out of the broadcast state and must accompany every move made
+   * from that seat. Once no seat is pending, play begins.
+   *
+   * The seat is checked and taken before anything is awaited, so two
+   * players, or a player and the AI, can never end up with the same seat.
+   *
+   * @param {SymbolType} symbol - The seat being claimed
+   * @param {string} [playerId] - Identifies the claiming player across
+   *                              games, for adaptive AI
+   * @returns {Promise<string>} The seat token to hand to the claiming client
+   * @throws {Error} If the seat has already been taken
+   */
+  async claimSeat(symbol: SymbolType, playerId?: string): Promise<string> {
+    this.requireOpenSeat(symbol);
+
+    const token = crypto.randomUUID();
+    this.sql`INSERT INTO seats (symbol, token) VALUES (${symbol}, ${token})`;
+    if (playerId) {
+      this.sql`INSERT INTO playerIds (symbol, playerId) VALUES (${symbol}, ${playerId})`;
+    }
+
+    const game = this.state.game!;
+    const players = {
+      ...game.players,
+      [symbol]: {
+        name: game.players[symbol].name,
+        symbol,
+        type: PlayerType.HUMAN,
+        pending: false,
+      } as HumanPlayer,
+    } as Players;
+    const waiting = players.X.pending || players.O.pending;
+
+    this.setState({
+      ...this.state,
+      game: { ...game, players },
+      waitingForPlayers: waiting,
+      inProgress: !waiting,
+    });
+    await this.startGame();
+
+    return token;
+  }
+
+  /**
+   * Checks that a seat is still free to take: the game is waiting for
+   * players, the seat is pending and nobody, human or AI, holds it.
+   *
+   * @param {SymbolType} symbol - The seat about to be taken
+   * @throws {Error} If the seat has already been taken
+   */
+  private requireOpenSeat(symbol: SymbolType): void {
+    const [held] = this.sql<{
+      symbol: SymbolType;
+    }>`SELECT symbol FROM seats WHERE symbol = ${symbol}`;
+    if (
+      held ||
+      !this.state.waitingForPlayers ||
+      !this.state.game!.players[symbol].pending
+    ) {
+      throw new Error(`Seat ${symbol} already taken`);
+    }
+  }
+
+  /**
+   * Lists the seat tokens issued in this game, and the player ids that
+   * came with them, so a rematch can carry them over. No server function
+   * returns them: tokens must never reach other clients.
+   *
+   * @returns {{symbol: SymbolType, token: string, playerId: string | null}[]}
+   *          One entry per human seat
+   */
+  seatTokens(): {
+    symbol: SymbolType;
+    token: string;
+    playerId: string | null;
+  }[] {
+    return this.sql<{
+      symbol: SymbolType;
+      token: string;
+      playerId: string | null;
+    }>`SELECT seats.symbol, token, playerId
+      FROM seats LEFT JOIN playerIds USING (symbol)
+      WHERE token IS NOT NULL`;
+  }
+
+  /**
+   * Seats an AI player and starts the game. The other seat belongs to the
+   * human who is playing it, so it is no longer pending. If the AI holds
+   * X, it makes the opening move. Adaptive AI sets its strength from the
+   * human's record, so their seat should be claimed first.
+   *
+   * The seat is held for the AI before its strength is looked up, so no
+   * one can claim it in the meantime.
+   *
+   * @param {SymbolType} symbol - The seat the AI takes
+   * @param {AILevel} level - The AI player's difficulty level
+   * @param {Persona} [persona] - Custom AI opponent to play, under its own name
+   * @returns {Promise<void>}
+   * @throws {Error} If the seat has already been taken
+   */
+  async seatAI(
+    symbol: SymbolType,
+    level: AILevel,
+    persona?: Persona
+  ): Promise<void> {
+    this.requireOpenSeat(symbol);
+    this.sql`INSERT INTO seats (symbol, token) VALUES (${symbol}, NULL)`;
+
+    const ai = await this.withStrength({
+      name: persona?.name ?? `AI (${level})`,
+      symbol,
+      type: PlayerType.AI,
+      level,
+      persona,
+      pending: false,
+    });
+
+    const game = this.state.game!;
+    const human = game.players[nextTurn(symbol)];
+    this.setState({
+      ...this.state,
+      game: {
+        ...game,
+        players: {
+          [symbol]: ai,
+          [human.symbol]: { ...human, pending: false },
+        } as Players,
+      },
+      waitingForPlayers: false,
+      inProgress: true,
+    });
+    await this.startGame();
+  }
+
+  /**
+   * Sets an adaptive AI player's strength from the record of the human it
+   * faces. Other AI players are returned as they are.
+   *
+   * @param {AIPlayer} player - The AI player, in the seat it will take
+   * @returns {Promise<AIPlayer>} The player, with its strength if adaptive
+   */
+  private async withStrength(player: AIPlayer): Promise<AIPlayer> {
+    if (player.level !== AILevel.ADAPTIVE) return player;
+
+    const playerId = this.playerIdFor(nextTurn(player.symbol));
+    if (!playerId) return { ...player, strength: DEFAULT_STRENGTH };
+
+    const lobby = await getAgentByName<Env, LobbyAgent>(
+      this.env.LobbyAgent,
+      "lobby"
+    );
+    return { ...player, strength: await lobby.strengthFor(playerId) };
+  }
+
+  /**
+   * Looks up the player id that came with a seat.
+   *
+   * @param {SymbolType} symbol - The seat
+   * @returns {string | null} The seated player's id, if they gave one
+   */
+  private playerIdFor(symbol: SymbolType): string | null {
+    const [row] = this.sql<{
+      playerId: string;
+    }>`SELECT playerId FROM playerIds WHERE symbol = ${symbol}`;
+    return row?.playerId ?? null;
+  }
+
+  /**
+   * Seats the players of a finished game in this one, its rematch, with
+   * symbols swapped. Humans keep their seat tokens, so each can carry on
+   * playing without being issued a new one.
+   *
+   * @param {Players} players - The players of the finished game
+   * @param {{symbol: SymbolType, token: string, playerId: string | null}[]} seats -
+   *        Its seat tokens and player ids
+   * @returns {Promise<void>}
+   */
+  async seatRematch(
+    players: Players,
+    seats: { symbol: SymbolType; token: string; playerId: string | null }[]
+  ): Promise<void> {
+    for (const { symbol, token, playerId } of seats) {
+      this.sql`INSERT INTO seats (symbol, token) VALUES (${nextTurn(symbol)}, ${token})`;
+      if (playerId) {
+        this.sql`INSERT INTO playerIds (symbol, playerId) VALUES (${nextTurn(symbol)}, ${playerId})`;
+      }
+    }
+    for (const { symbol, type } of Object.values(players)) {
+      if (type === PlayerType.AI) {
+        this.sql`INSERT INTO seats (symbol, token) VALUES (${nextTurn(symbol)}, NULL)`;
+      }
+    }
+
+    // Adaptive AI takes the result of the finished game into account
+    const swapped = async (player: Player, symbol: SymbolType) =>
+      player.type === PlayerType.AI
+        ? await this.withStrength({ ...player, symbol })
+        : { ...player, symbol };
+
+    this.setState({
+      ...this.state,
+      game: {
+        ...this.state.game!,
+        players: {
+          X: await swapped(players.O, SymbolType.X),
+          O: await swapped(players.X, SymbolType.O),
+        },
+      },
+      waitingForPlayers: false,
+      inProgress: true,
+    });
+    await this.startGame();
+  }
+
+  /**
+   * Starts play once both seats are filled: the clock for the side to move,
+   * in timed games, the watch on the players' heartbeats, and the AI's
+   * opening move if it holds X. Safe to call more than once.
+   *
+   * @returns {Promise<void>}
+   */
+  async startGame(): Promise<void> {
+    const game = this.state.game;
+    if (!game || game.winner || this.state.waitingForPlayers) return;
+
+    if (game.clock && !game.clock.deadline) {
+      const clock = startTurn(game.clock, game.currentTurn, new Date());
+      this.setState({ ...this.state, game: { ...game, clock } });
+      await this.scheduleTimeout(clock);
+    }
+
+    const watching = this.getSchedules().some(
+      (schedule) => schedule.callback === "checkPresence"
+    );
+    if (!watching) {
+      // Everyone gets a full allowance to send their first heartbeat
+      for (const { symbol } of this.seatTokens()) {
+        this.markSeen(symbol);
+      }
+      await this.schedule(PRESENCE_CHECK_INTERVAL, "checkPresence");
+    }
+
+    await this.updateLobby();
+    await this.scheduleAITurn();
+  }
+
+  /**
+   * Records that the player in the seat identified by the given token
+   * still has the game open. A player marked as disconnected is welcomed
+   * back. Clients reach it through the server functions.
+   *
+   * @param {string} seatToken - Token returned when the seat was claimed
+   * @throws {Error} If the token is unknown
+   */
+  heartbeat(seatToken: string): void {
+    const symbol = this.requireSeat(seatToken);
+    this.markSeen(symbol);
+
+    if (this.state.disconnected?.[symbol]) {
+      const { [symbol]: _, ...disconnected } = this.state.disconnected;
+      this.setState({ ...this.state, disconnected });
+    }
+  }
+
+  /**
+   * Alarm callback that checks on the players of a game in progress, every
+   * PRESENCE_CHECK_INTERVAL seconds until the game ends. A human who has
+   * sent no heartbeat for DISCONNECT_AFTER is marked as disconnected; one
+   * still gone after RECONNECT_GRACE_PERIOD forfeits, and the game is
+   * dropped from the lobby. If both players are gone, nobody wins.
+   *
+   * @returns {Promise<void>}
+   */
+  async checkPresence(): Promise<void> {
+    const game = this.state.game;
+    if (!game || game.winner || this.state.waitingForPlayers) return;
+
+    const now = Date.now();
+    const disconnected = { ...this.state.disconnected };
+    const seen = this.sql<{
+      symbol: SymbolType;
+      lastSeen: number;
+    }>`SELECT symbol, lastSeen FROM presence`;
+
+    for (const { symbol, lastSeen } of seen) {
+      if (now - lastSeen > DISCONNECT_AFTER) {
+        disconnected[symbol] ??= new Date(now).toISOString();
+      }
+    }
+
+    const forfeited = (Object.keys(disconnected) as SymbolType[]).filter(
+      (symbol) =>
+        now - new Date(disconnected[symbol]!).getTime() >=
+        RECONNECT_GRACE_PERIOD
+    );
+
+    if (forfeited.length > 0) {
+      this.endGame(
+        forfeited.length === 2 ? "Draw" : nextTurn(forfeited[0]),
+        ResultReason.ABANDONED,
+        new Date(now)
+      );
+      return;
+    }
+
+    if (
+      Object.keys(disconnected).length !==
+      Object.keys(this.state.disconnected ?? {}).length
+    ) {
+      this.setState({ ...this.state, disconnected });
+    }
+    await this.schedule(PRESENCE_CHECK_INTERVAL, "checkPresence");
+  }
+
+  /**
+   * Records a sign of life from the player holding the given symbol.
+   *
+   * @param {SymbolType} symbol - The seat the player holds
+   */
+  private markSeen(symbol: SymbolType): void {
+    this.sql`INSERT INTO presence (symbol, lastSeen) VALUES (${symbol}, ${Date.now()})
+      ON CONFLICT (symbol) DO UPDATE SET lastSeen = excluded.lastSeen`;
+  }
+
+  /**
+   * Alarm callback fired when a turn's deadline passes. The side to move
+   * loses on time, whether or not anyone has the game open. Alarms left
+   * over from turns that were completed in time are ignored.
+   *
+   * @param {Object} payload - Schedule payload
+   * @param {string} payload.deadline - Deadline of the turn the alarm was set for
+   */
+  onTurnTimeout({ deadline }: { deadline: string }): void {
+    const game = this.state.game;
+    if (!game?.clock || game.winner || game.clock.deadline !== deadline) {
+      return;
+    }
+
+    this.endGame(
+      nextTurn(game.currentTurn),
+      ResultReason.TIMEOUT,
+      new Date(deadline)
+    );
+  }
+
+  /**
+   * Sets the alarm that enforces the deadline of the turn in progress.
+   *
+   * @param {Clock} clock - The running game clock
+   * @returns {Promise<void>}
+   */
+  private async scheduleTimeout(clock: Clock): Promise<void> {
+    await this.schedule(new Date(clock.deadline!), "onTurnTimeout", {
+      deadline: clock.deadline!,
+    });
+  }
+
+  /**
+   * Asks for a rematch on behalf of the seat identified by the given token.
+   * Clients reach it through the server functions.
+   *
+   * AI players always agree, so against the AI a single request is enough.
+   *
+   * @param {string} seatToken - Token returned when the seat was claimed
+   * @returns {boolean} True if this request completed the agreement and the
+   *                    rematch should now be created
+   * @throws {Error} If the token is unknown or the game is not over
+   */
+  requestRematch(seatToken: string): boolean {
+    const symbol = this.requireSeat(seatToken);
+    if (!this.state.game?.winner) {
+      throw new Error("Game is not over yet");
+    }
+
+    const ai = this.aiPlayer();
+    const acceptedBy = this.state.rematch?.acceptedBy ?? (ai ? [ai] : []);
+    if (acceptedBy.includes(symbol)) return false;
+
+    this.setState({
+      ...this.state,
+      rematch: { acceptedBy: [...acceptedBy, symbol] },
+    });
+    return acceptedBy.length + 1 === 2;
+  }
+
+  /**
+   * Records the slug of the agreed rematch so both players can follow it.
+   *
+   * @param {string} slug - Slug of the new game
+   */
+  linkRematch(slug: string): void {
+    this.setState({
+      ...this.state,
+      rematch: { ...this.state.rematch!, slug },
+    });
+  }
+
+  /**
+   * Resolves a seat token to its symbol, for actions only a seated player
+   * may take.
+   *
+   * @param {string} token - Seat token supplied by the client
+   * @returns {SymbolType} The owning symbol
+   * @throws {Error} If the token was not issued in this game
+   */
+  private requireSeat(token: string): SymbolType {
+    const symbol = this.seatForToken(token);
+    if (!symbol) {
+      throw new Error("Not seated in this game");
+    }
+    return symbol;
+  }
+
+  /**
+   * Checks that the game has started and is not yet over.
+   *
+   * @returns {Game} The game in progress
+   * @throws {Error} If the game is missing, over or still waiting for players
+   */
+  private requireInProgress(): Game {
+    const game = this.state.game;
+
+    if (!game) throw new Error("Game not found");
+    if (game.winner) throw new Error("Game is already over");
+    if (this.state.waitingForPlayers) {
+      throw new Error("Waiting for an opponent to join");
+    }
+    return game;
+  }
+
+  /**
+   * Ends the game other than by a move: by resignation, agreement or
+   * timeout. The clock of the side to move is stopped at `at`.
+   *
+   * @param {SymbolType | "Draw"} winner - The result
+   * @param {ResultReason} reason - Why the game ended
+   * @param {Date} at - When the game ended
+   */
+  private endGame(
+    winner: SymbolType | "Draw",
+    reason: ResultReason,
+    at: Date
+  ): void {
+    const game = this.state.game!;
+    this.aiMove?.abort(new Error("Game is over"));
+
+    this.setState({
+      ...this.state,
+      inProgress: false,
+      game: {
+        ...game,
+        winner,
+        resultReason: reason,
+        drawOffer: undefined,
+        clock: game.clock && endTurn(game.clock, game.currentTurn, at),
+      },
+      disconnected: undefined,
+      updatedAt: at.toISOString(),
+    });
+    this.ctx.waitUntil(this.reportResult());
+    this.ctx.waitUntil(this.updateLobby());
+  }
+
+  /**
+   * Reports the result of a finished game between a human and the AI to
+   * the lobby, which keeps each player's record for adaptive AI. Games
+   * without a human who gave a player id are not reported. Failing to
+   * report never holds up the game.
+   *
+   * @returns {Promise<void>}
+   */
+  private async reportResult(): Promise<void> {
+    const game = this.state.game;
+    const ai = this.aiPlayer();
+    if (!game?.winner || !ai) return;
+
+    const human = nextTurn(ai);
+    const playerId = this.playerIdFor(human);
+    const player = game.players[ai];
+    if (!playerId || player.type !== PlayerType.AI) return;
+
+    const score = game.winner === "Draw" ? 0.5 : game.winner === human ? 1 : 0;
+    try {
+      const lobby = await getAgentByName<Env, LobbyAgent>(
+        this.env.LobbyAgent,
+        "lobby"
+      );
+      await lobby.recordBotResult(playerId, player.level, score);
+    } catch (error) {
+      console.error("Reporting result failed:", error);
     }
   }
 
+  /**
+   * Keeps the lobby's lists in step with the game, so lobbies following
+   * them see it move to "in progress" once both seats are filled and drop
+   * out once it is over. Failing to update the lobby never holds up the
+   * game.
+   *
+   * @returns {Promise<void>}
+   */
+  private async updateLobby(): Promise<void> {
+    try {
+      const lobby = await getAgentByName<Env, LobbyAgent>(
+        this.env.LobbyAgent,
+        "lobby"
+      );
+      if (this.state.game?.winner) {
+        await lobby.removeFromLobby(this.state.slug);
+      } else {
+        await lobby.markInProgress(this.state.slug);
+      }
+    } catch (error) {
+      console.error("Updating lobby failed:", error);
+    }
+  }
+
+  /**
+   * Resolves a seat token back to the symbol it was issued for.
+   *
+   * @param {string} token - Seat token supplied by the client
+   * @returns {SymbolType | null} The owning symbol, or null for unknown tokens
+   */
+  private seatForToken(token: string): SymbolType | null {
+    const [seat] = this.sql<{
+      symbol: SymbolType;
+    }>`SELECT symbol FROM seats WHERE token = ${token}`;
+    return seat?.symbol ?? null;
+  }
+
   /**
    * Determines which symbol (if any) is controlled by the AI player.
    *
@@ -123,7 +791,7 @@ export class GameAgent extends Agent<Env, GameState> {
   }
 
   /**
-   * Checks if it's currently the AI player's turn to move.
+   * Checks if it's currently an AI player's turn to move.
    *
    * @returns {boolean} True if the current turn belongs to an AI player
    */
@@ -132,50 +800,506 @@ export class GameAgent extends Agent<Env, GameState> {
 
     if (!game || game.winner) return false;
 
-    return game.currentTurn === this.aiPlayer();
+    return game.players[game.currentTurn].type === PlayerType.AI;
   }
 
   /**
-   * Executes an AI move for the specified player symbol.
-   * This method is callable from the client via RPC.
-   * 
+   * Seats an AI player in both seats, for a bot-vs-bot arena game. Nobody
+   * is watching, so the game needs neither a clock nor presence checks.
+   *
+   * @param {Record<SymbolType, AILevel>} levels - The level playing each symbol
+   */
+  seatBots(levels: Record<SymbolType, AILevel>): void {
+    const bot = (symbol: SymbolType): AIPlayer => ({
+      name: `AI (${levels[symbol]})`,
+      symbol,
+      type: PlayerType.AI,
+      level: levels[symbol],
+      pending: false,
+    });
+
+    this.setState({
+      ...this.state,
+      game: {
+        ...this.state.game!,
+        players: { X: bot(SymbolType.X), O: bot(SymbolType.O) },
+        clock: undefined,
+      },
+      waitingForPlayers: false,
+      inProgress: true,
+    });
+  }
+
+  /**
+   * Plays AI moves until it is a human's turn or the game is over. In a
+   * game between two bots this plays it to the end.
+   *
+   * @returns {Promise<GameState>} The game state once no AI move is due
+   */
+  async playOut(): Promise<GameState> {
+    while (this.isAIMove()) {
+      await this.makeAIMove(this.state.game!.currentTurn);
+    }
+    return this.state;
+  }
+
+  /**
+   * Plays a human move for the seat identified by the given token.
+   * Clients reach it through the server functions.
+   *
+   * The seat is derived from the token rather than trusted from the client,
+   * so a player can only ever move for the symbol they were issued.
+   *
+   * @param {string} seatToken - Token returned when the seat was claimed
+   * @param {number} position - The board position to play
+   * @param {SymbolType} [piece] - The piece to place, for variants where
+   *                               players choose (defaults to their own symbol)
+   * @returns {Promise<GameState>} The game state after the move
+   * @throws {Error} If the token is unknown or the move is not legal
+   */
+  async makeMove(
+    seatToken: string,
+    position: number,
+    piece?: SymbolType
+  ): Promise<GameState> {
+    const symbol = this.requireSeat(seatToken);
+
+    await this.applyMove(symbol, position, piece ?? symbol);
+    await this.scheduleAITurn();
+    return this.state;
+  }
+
+  /**
+   * Arranges for the AI to reply in the background if the turn is now
+   * theirs, so nobody waits on the model to hear that their own move was
+   * played. The reply reaches clients with the state update.
+   *
+   * @returns {Promise<void>}
+   */
+  private async scheduleAITurn(): Promise<void> {
+    if (this.isAIMove()) {
+      await this.schedule(0, "playAITurn");
+    }
+  }
+
+  /**
+   * Schedule callback that plays the AI's move, if it is still their turn.
+   * A move that fails or is cancelled is logged and dropped.
+   *
+   * @returns {Promise<void>}
+   */
+  async playAITurn(): Promise<void> {
+    if (!this.isAIMove()) return;
+
+    try {
+      await this.makeAIMove(this.state.game!.currentTurn);
+    } catch (error) {
+      console.error("AI move failed:", error);
+    }
+  }
+
+  /**
+   * Executes an AI move for the specified player symbol and applies it to
+   * the board. Only the scheduled AI turn drives it, so clients cannot
+   * make the AI move out of turn.
+   *
+   * The bot gets its level's time budget, cut short by the clock in timed
+   * games, after which it plays its fallback move. Ending the game while
+   * the bot is thinking cancels the move.
+   *
    * @param {SymbolType} playerSymbol - The symbol (X or O) of the AI player to move
-   * @returns {Promise<number>} The board position (0-8) where the AI chose to move
-   * @throws {Error} If the specified player is not an AI player
+   * @returns {Promise<number>} The board position where the AI chose to move
+   * @throws {Error} If the specified player is not an AI player, it is not
+   *                 their turn or the move was cancelled
    */
-  @callable()
   async makeAIMove(playerSymbol: SymbolType): Promise<number> {
     const player = this.state.game!.players[playerSymbol];
 
     if (player.type !== PlayerType.AI) {
       throw new Error("Cannot make AI move for human player");
     }
+    if (this.state.game!.currentTurn !== playerSymbol) {
+      throw new Error(`It is not ${playerSymbol}'s turn`);
+    }
+
+    const game = this.state.game!;
+    const bot = this.getBotForGame(
+      game,
+      player.level,
+      player.strength,
+      player.persona
+    );
+
+    const deadline = game.clock?.deadline;
+    const budget = Math.min(
+      AI_MOVE_BUDGET[player.level],
+      deadline
+        ? new Date(deadline).getTime() - Date.now() - AI_CLOCK_MARGIN
+        : Infinity
+    );
+    const controller = new AbortController();
+    this.aiMove?.abort(new Error("Superseded by a newer AI move"));
+    this.aiMove = controller;
+
+    let position: number;
+    try {
+      position = await bot.makeMove(
+        game,
+        AbortSignal.any([
+          controller.signal,
+          AbortSignal.timeout(Math.max(0, budget)),
+        ])
+      );
+    } finally {
+      if (this.aiMove === controller) this.aiMove = undefined;
+    }
+    const piece = bot.choosePiece(game, position);
+
+    // The board may have changed while the bot was thinking, so the move is
+    // validated again against the latest state before it is applied.
+    await this.applyMove(playerSymbol, position, piece);
+    await this.reportBotMove(
+      bot instanceof BotPersona ? "persona" : player.level,
+      bot.fallbackReason
+    );
+    return position;
+  }
+
+  /**
+   * Reports an AI move to the lobby, which counts how often each level,
+   * and custom AI opponents together, fall back. Failing to report never
+   * holds up the game.
+   *
+   * @param {BotLabel} level - Level of the AI player that moved, or
+   *                           "persona" for a custom AI opponent
+   * @param {FallbackReason} [fallbackReason] - Why the bot fell back, if it did
+   * @returns {Promise<void>}
+   */
+  private async reportBotMove(
+    level: BotLabel,
+    fallbackReason?: FallbackReason
+  ): Promise<void> {
+    try {
+      const lobby = await getAgentByName<Env, LobbyAgent>(
+        this.env.LobbyAgent,
+        "lobby"
+      );
+      await lobby.recordBotMove(level, fallbackReason);
+    } catch (error) {
+      console.error("Reporting bot move failed:", error);
+    }
+  }
+
+  /**
+   * Resigns the game on behalf of the seat identified by the given token,
+   * handing the win to the opponent.
+   * Clients reach it through the server functions.
+   *
+   * @param {string} seatToken - Token returned when the seat was claimed
+   * @returns {GameState} The game state after resigning
+   * @throws {Error} If the token is unknown or the game is not in progress
+   */
+  resign(seatToken: string): GameState {
+    const symbol = this.requireSeat(seatToken);
+    this.requireInProgress();
+
+    this.endGame(nextTurn(symbol), ResultReason.RESIGNATION, new Date());
+    return this.state;
+  }
+
+  /**
+   * Offers a draw on behalf of the seat identified by the given token. The
+   * offer stands until the opponent answers it or either side moves.
+   * Clients reach it through the server functions.
+   *
+   * @param {string} seatToken - Token returned when the seat was claimed
+   * @returns {GameState} The game state with the offer recorded
+   * @throws {Error} If the token is unknown, the game is not in progress,
+   *                 the opponent is an AI or a draw has already been offered
+   */
+  offerDraw(seatToken: string): GameState {
+    const symbol = this.requireSeat(seatToken);
+    const game = this.requireInProgress();
+
+    if (game.players[nextTurn(symbol)].type === PlayerType.AI) {
+      throw new Error("Draws can only be offered to human opponents");
+    }
+    if (game.drawOffer) {
+      throw new Error("A draw has already been offered");
+    }
+
+    this.setState({
+      ...this.state,
+      game: { ...game, drawOffer: symbol },
+      updatedAt: new Date().toISOString(),
+    });
+    return this.state;
+  }
+
+  /**
+   * Accepts or declines the opponent's draw offer on behalf of the seat
+   * identified by the given token. Accepting ends the game as a draw.
+   * Clients reach it through the server functions.
+   *
+   * @param {string} seatToken - Token returned when the seat was claimed
+   * @param {boolean} accept - Whether to accept the draw
+   * @returns {GameState} The game state after answering
+   * @throws {Error} If the token is unknown, the game is not in progress or
+   *                 there is no offer from the opponent to answer
+   */
+  answerDrawOffer(seatToken: string, accept: boolean): GameState {
+    const symbol = this.requireSeat(seatToken);
+    const game = this.requireInProgress();
+
+    if (game.drawOffer !== nextTurn(symbol)) {
+      throw new Error("There is no draw offer to answer");
+    }
+
+    if (accept) {
+      this.endGame("Draw", ResultReason.AGREEMENT, new Date());
+    } else {
+      this.setState({
+        ...this.state,
+        game: { ...game, drawOffer: undefined },
+        updatedAt: new Date().toISOString(),
+      });
+    }
+    return this.state;
+  }
+
+  /**
+   * Suggests a move for the seat identified by the given token, using the
+   * strongest bot for the game, along with a short reason for it. Each side
+   * gets HINTS_PER_GAME hints; every hint is recorded so the move that
+   * follows is flagged in the move history.
+   * Clients reach it through the server functions.
+   *
+   * @param {string} seatToken - Token returned when the seat was claimed
+   * @returns {Promise<Hint>} The suggested square, piece and reason
+   * @throws {Error} If the token is unknown, the game is not in progress,
+   *                 it is not the player's turn or they have no hints left
+   */
+  async getHint(seatToken: string): Promise<Hint> {
+    const symbol = this.requireSeat(seatToken);
+    const game = this.requireInProgress();
+
+    if (game.currentTurn !== symbol) {
+      throw new Error("Hints are only given on your turn");
+    }
+    const used = this.state.hintsUsed?.[symbol] ?? 0;
+    if (used >= HINTS_PER_GAME) {
+      throw new Error("No hints left in this game");
+    }
+
+    // Charge for the hint before the bot thinks, so that requests made at
+    // the same time can't get past the limit
+    const moveNumber = game.board.filter(Boolean).length + 1;
+    this.setState({
+      ...this.state,
+      hintsUsed: { ...this.state.hintsUsed, [symbol]: used + 1 },
+    });
+
+    const bot = this.getBotForGame(game, AILevel.PERFECT);
+    const position = await bot.makeMove(
+      game,
+      AbortSignal.timeout(AI_MOVE_BUDGET[AILevel.PERFECT])
+    );
+    const piece = bot.choosePiece(game, position);
+
+    this.sql`INSERT INTO hints (symbol, moveNumber, position, createdAt)
+      VALUES (${symbol}, ${moveNumber}, ${position}, ${new Date().toISOString()})`;
 
-    // TypeScript knows player is AIPlayer here
-    const bot = this.getBotForLevel(player.level);
-    return await bot.makeMove(this.state.game!.board);
+    return { position, piece, reason: explainMove(game, position, piece) };
+  }
+
+  /**
+   * Returns the full move history for this game, in the order played.
+   * Clients reach it through the server functions.
+   *
+   * @returns {Move[]} Every move made so far, oldest first, each flagged if
+   *                   the player had asked for a hint before making it
+   */
+  getMoves(): Move[] {
+    const moves = this.sql<Omit<Move, "hinted"> & { hinted: number }>`
+      SELECT moveNumber, player, piece, spaceTaken AS position, createdAt,
+        EXISTS (
+          SELECT 1 FROM hints
+          WHERE hints.symbol = moves.player AND hints.moveNumber = moves.moveNumber
+        ) AS hinted
+      FROM moves ORDER BY moveNumber ASC`;
+    return moves.map((move) => ({ ...move, hinted: move.hinted === 1 }));
+  }
+
+  /**
+   * Validates and applies a move, then records it in the move history,
+   * sets the winner and advances the turn. All moves, human or AI, go
+   * through here so the history always matches the board. In timed games
+   * the mover's clock is stopped and the opponent's started.
+   *
+   * @param {SymbolType} symbol - The symbol making the move
+   * @param {number} position - The board position to play
+   * @param {SymbolType} piece - The piece to place
+   * @returns {Promise<void>}
+   * @throws {Error} If the game is not playable, it is not the symbol's turn,
+   *                 the mover is out of time, or the position or piece is
+   *                 not legal in this variant
+   */
+  private async applyMove(
+    symbol: SymbolType,
+    position: number,
+    piece: SymbolType
+  ): Promise<void> {
+    const game = this.requireInProgress();
+    if (game.currentTurn !== symbol) {
+      throw new Error(`It is not ${symbol}'s turn`);
+    }
+
+    const now = new Date();
+    const deadline = game.clock?.deadline;
+    if (deadline && now.getTime() > new Date(deadline).getTime()) {
+      // The alarm has not fired yet, but the time is up all the same
+      this.onTurnTimeout({ deadline });
+      throw new Error(`${symbol} is out of time`);
+    }
+
+    const next = playMove(game, symbol, position, piece);
+    const updatedAt = now.toISOString();
+    const moveNumber = game.board.filter(Boolean).length + 1;
+
+    if (next.clock) {
+      next.clock = endTurn(next.clock, symbol, now);
+      if (!next.winner) {
+        next.clock = startTurn(next.clock, next.currentTurn, now);
+      }
+    }
+
+    this.sql`INSERT INTO moves (moveNumber, player, piece, spaceTaken, createdAt)
+      VALUES (${moveNumber}, ${symbol}, ${piece}, ${position}, ${updatedAt})`;
+
+    this.setState({
+      ...this.state,
+      inProgress: !next.winner,
+      game: next,
+      updatedAt,
+    });
+    if (next.winner) {
+      await this.reportResult();
+      await this.updateLobby();
+    }
+
+    if (next.clock?.deadline) await this.scheduleTimeout(next.clock);
+  }
+
+  /**
+   * Picks the bot for a game. The perfect player takes any game small
+   * enough to search in full. Otherwise the difficulty levels only apply
+   * to classic rules; other variants are played by rule-based bots that
+   * know them.
+   *
+   * Adaptive AI mixes random moves with those of the strongest bot for
+   * the game. Custom AI opponents are written for classic rules, and the
+   * lobby only seats them in classic games.
+   *
+   * @param {Game} game - The game the bot will play
+   * @param {AILevel} level - The AI player's difficulty level
+   * @param {number} [strength] - Share of best moves, for adaptive AI
+   * @param {Persona} [persona] - Custom AI opponent, if one was picked
+   * @returns {BotPlayer} Bot able to play the game's variant
+   */
+  private getBotForGame(
+    game: Game,
+    level: AILevel,
+    strength?: number,
+    persona?: Persona
+  ): BotPlayer {
+    if (level === AILevel.ADAPTIVE) {
+      return new BotAdaptive(
+        this.env,
+        this.getBotForGame(game, AILevel.PERFECT),
+        strength ?? DEFAULT_STRENGTH
+      );
+    }
+
+    if (
+      level === AILevel.PERFECT &&
+      game.board.length <= PERFECT_PLAY_SQUARES
+    ) {
+      return new BotPerfect(this.env);
+    }
+
+    switch (game.variant) {
+      case Variant.CLASSIC:
+        return persona
+          ? new BotPersona(
+              this.env,
+              createModelProvider(this.env, level),
+              persona
+            )
+          : this.getBotForLevel(level);
+      case Variant.ULTIMATE:
+        return new BotUltimate(this.env);
+      default:
+        return new BotVariant(this.env);
+    }
   }
 
   /**
    * Creates and returns the appropriate bot implementation based on AI difficulty level.
    * 
-   * @param {AILevel} level - The difficulty level (BEGINNER, INTERMEDIATE, or EXPERT)
+   * @param {AILevel} level - The difficulty level (BEGINNER, INTERMEDIATE, EXPERT or PERFECT)
    * @returns {BotPlayer} Instance of the bot implementation for the specified level
    * 
-   * @note Currently only EXPERT is fully implemented. BEGINNER and INTERMEDIATE
-   *       fall through to EXPERT as placeholders.
+   * @note PERFECT only reaches here on boards too large to search, where
+   *       EXPERT is the strongest we have.
    */
-  private getBotForLevel(level: AILevel): BotPlayer {
+  private getBotForLevel(
+    level: Exclude<AILevel, AILevel.ADAPTIVE>
+  ): BotPlayer {
     switch (level) {
       case AILevel.BEGINNER:
-      // return new BotBeginner(this.env);
+        return new BotBeginner(this.env);
       case AILevel.INTERMEDIATE:
-      // return new BotIntermediate(this.env);
+        return new BotIntermediate(this.env);
+      case AILevel.PERFECT:
       case AILevel.EXPERT:
-        return new BotExpert(this.env);
+        return new BotExpert(
+          this.env,
+          createModelProvider(this.env, level),
+          this.moveCache()
+        );
     }
   }
 
+  /**
+   * Move cache kept by the lobby and shared by every game. A cache that
+   * can't be reached only costs a model call, so errors are logged and
+   * otherwise ignored.
+   *
+   * @returns {MoveCache} Cache for language model bots to use
+   */
+  private moveCache(): MoveCache {
+    const lobby = () =>
+      getAgentByName<Env, LobbyAgent>(this.env.LobbyAgent, "lobby");
+
+    return {
+      get: async (key) => {
+        try {
+          return await (await lobby()).cachedMove(key);
+        } catch (error) {
+          console.error("Reading move cache failed:", error);
+          return null;
+        }
+      },
+      set: async (key, position) => {
+        try {
+          await (await lobby()).cacheMove(key, position);
+        } catch (error) {
+          console.error("Writing move cache failed:", error);
+        }
+      },
+    };
+  }
+
   /**
    * Deletes this game and destroys the Durable Object instance.
    * Cleans up all associated storage and resources.
@@ -183,6 +1307,7 @@ export class GameAgent extends Agent<Env, GameState> {
    * @returns {Promise<void>}
    */
   async delete(): Promise<void> {
+    this.aiMove?.abort(new Error("Game deleted"));
     return this.destroy();
   }
 }
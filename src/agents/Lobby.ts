@@ -1,4 +1,4 @@
-import { Agent, callable, getAgentByName } from "agents";
+import { Agent, getAgentByName } from "agents";
 import {
   uniqueNamesGenerator,
   adjectives,
@@ -6,7 +6,26 @@ import {
   colors,
 } from "unique-names-generator";
 import { GameAgent, GameState } from "./Game";
-import { PlayerType } from "@/types";
+import {
+  AILevel,
+  ArenaMatch,
+  ArenaStanding,
+  BotFallbackStats,
+  BotLabel,
+  FallbackReason,
+  GameConfig,
+  Persona,
+  PersonaInput,
+  PlayerType,
+  Series,
+  SymbolType,
+  Variant,
+} from "@/types";
+import { validateBestOf, winsNeeded } from "@/lib/Series";
+import { INITIAL_RATING, ratingChange, validateArenaGames } from "@/lib/Arena";
+import { ADAPTIVE_HISTORY, adaptiveStrength } from "@/lib/Adaptive";
+import { MAX_LISTED_PERSONAS, validatePersona } from "@/lib/Personas";
+import { MOVE_CACHE_SIZE } from "../bots/MoveCache";
 
 /**
  * LobbyState represents the current state of the game lobby.
@@ -27,6 +46,12 @@ export type LobbyState = {
  * - Create new games and generate unique identifiers
  * - Track which games are seeking players vs in progress
  * - Maintain a persistent list of all games in SQL storage
+ * - Keep the running score of match series and create rematches
+ * - Run bot-vs-bot arena matches and keep each AI level's Elo rating
+ * - Count how often the bots at each AI level fall back, and why
+ * - Remember the moves language model bots chose, for every game to share
+ * - Keep each player's results against the AI, which adaptive AI tunes
+ *   itself by
  * - Clean up completed/deleted games
  * - Provide lobby state to clients for display
  */
@@ -42,13 +67,67 @@ export class LobbyAgent extends Agent<Env, LobbyState> {
 
   /**
    * Lifecycle hook called when the Durable Object is first created.
-   * Sets up the SQL database schema for storing game metadata.
+   * Sets up the SQL database schema for storing game metadata, the
+   * parent record of each match series, the arena record and fallback
+   * counts of each AI level, the move cache shared by the language model
+   * bots, each player's results against the AI, and the custom AI
+   * opponents players have written.
+   *
+   * A series tracks its two players as "first" (X in the opening game)
+   * and "second", since they swap symbols every game.
    */
   onStart(): void {
     this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS games (
         slug TEXT PRIMARY KEY,
         createdAt TEXT NOT NULL DEFAULT (datetime('now'))
       );`);
+    this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS series (
+        id TEXT PRIMARY KEY,
+        bestOf INTEGER NOT NULL,
+        gamesPlayed INTEGER NOT NULL DEFAULT 0,
+        firstPlayerWins INTEGER NOT NULL DEFAULT 0,
+        secondPlayerWins INTEGER NOT NULL DEFAULT 0,
+        createdAt TEXT NOT NULL DEFAULT (datetime('now'))
+      );`);
+    this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS ratings (
+        level TEXT PRIMARY KEY,
+        rating REAL NOT NULL,
+        wins INTEGER NOT NULL DEFAULT 0,
+        draws INTEGER NOT NULL DEFAULT 0,
+        losses INTEGER NOT NULL DEFAULT 0
+      );`);
+    this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS botMoves (
+        level TEXT PRIMARY KEY,
+        moves INTEGER NOT NULL DEFAULT 0
+      );`);
+    this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS botFallbacks (
+        level TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        count INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (level, reason)
+      );`);
+    this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS moveCache (
+        key TEXT PRIMARY KEY,
+        position INTEGER NOT NULL,
+        lastUsed INTEGER NOT NULL,
+        createdAt TEXT NOT NULL DEFAULT (datetime('now'))
+      );`);
+    this.ctx.storage.sql.exec(`CREATE INDEX IF NOT EXISTS moveCacheLastUsed
+        ON moveCache (lastUsed);`);
+    this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS botResults (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        playerId TEXT NOT NULL,
+        level TEXT NOT NULL,
+        score REAL NOT NULL,
+        createdAt TEXT NOT NULL DEFAULT (datetime('now'))
+      );`);
+    this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS personas (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        persona TEXT NOT NULL,
+        strategy TEXT NOT NULL,
+        createdAt TEXT NOT NULL DEFAULT (datetime('now'))
+      );`);
   }
 
   /**
@@ -70,44 +149,62 @@ export class LobbyAgent extends Agent<Env, LobbyState> {
 
   /**
    * Creates a new game and adds it to the lobby.
-   * Callable from the client via RPC.
+   * Clients reach it through the server functions.
    * 
    * Human opponent games are added to "seeking players" list.
    * AI opponent games are immediately added to "in progress" list.
    * 
    * Both lists are limited to the 5 most recent games for display purposes.
    * 
-   * @param {PlayerType} opponentType - Type of opponent (HUMAN or AI)
+   * @param {GameConfig} config - Game options, including the type of opponent (HUMAN or AI)
    * @returns {Promise<string>} The unique slug identifier for the created game
+   * @throws {Error} If the series length is not one we offer, or the
+   *                 custom AI opponent does not exist or was picked for
+   *                 rules other than classic
    */
-  @callable()
-  async createGame(opponentType: PlayerType): Promise<string> {
+  async createGame(config: GameConfig): Promise<string> {
+    const bestOf = config.bestOf ?? 1;
+    validateBestOf(bestOf);
+    if (config.personaId && !this.persona(config.personaId)) {
+      throw new Error("Unknown persona");
+    }
+    if (
+      config.personaId &&
+      (config.variant ?? Variant.CLASSIC) !== Variant.CLASSIC
+    ) {
+      throw new Error("Custom AI opponents only play classic rules");
+    }
+
     const slug = this.generateGameSlug();
     console.log(`[LobbyAgent] Create new game with slug ${slug}`);
 
+    const series = bestOf > 1 ? this.openSeries(slug, bestOf) : undefined;
     const game = await getAgentByName<Env, GameAgent>(this.env.GameAgent, slug);
-    await game.setup({ slug });
+    await game.setup({ slug, config, series });
 
     this.sql`INSERT INTO games (slug) VALUES (${slug})`;
 
     const gamesSeekingPlayers = this.state.gamesSeekingPlayers;
     const gamesInProgress = this.state.gamesInProgress;
+    const { createdAt, updatedAt, variant } = await game.state;
 
-    if (opponentType === PlayerType.HUMAN) {
+    if (config.opponentType === PlayerType.HUMAN) {
       gamesSeekingPlayers.unshift({
         slug,
+        variant,
         waitingForPlayers: true,
         inProgress: false,
-        createdAt: (await game.state).createdAt,
-        updatedAt: (await game.state).updatedAt,
+        createdAt,
+        updatedAt,
       });
     } else {
       gamesInProgress.unshift({
         slug,
+        variant,
         waitingForPlayers: false,
         inProgress: true,
-        createdAt: (await game.state).createdAt,
-        updatedAt: (await game.state).updatedAt,
+        createdAt,
+        updatedAt,
       });
     }
 
@@ -120,16 +217,504 @@ export class LobbyAgent extends Agent<Env, LobbyState> {
     return slug;
   }
 
+  /**
+   * Creates the rematch of a finished game once both players have agreed
+   * to it. The new game keeps the variant, board, time control and
+   * players, with symbols
+   * swapped. For games in a series, the finished game's result is added to
+   * the series record; once a series is decided its rematch opens a new
+   * series of the same length.
+   *
+   * @param {string} slug - Slug of the finished game
+   * @returns {Promise<string>} Slug of the rematch
+   * @throws {Error} If the game is not over or the rematch was not agreed
+   */
+  async createRematch(slug: string): Promise<string> {
+    const previous = await getAgentByName<Env, GameAgent>(
+      this.env.GameAgent,
+      slug
+    );
+    const state = await previous.state;
+    const finished = state.game;
+
+    if (!finished?.winner) {
+      throw new Error("Game is not over yet");
+    }
+    if (state.rematch?.slug) return state.rematch.slug;
+    if (state.rematch?.acceptedBy.length !== 2) {
+      throw new Error("Both players must agree to a rematch");
+    }
+
+    const nextSlug = this.generateGameSlug();
+    console.log(`[LobbyAgent] Create rematch of ${slug} with slug ${nextSlug}`);
+
+    const series =
+      state.series &&
+      this.recordSeriesResult(state.series, finished.winner, nextSlug);
+
+    const game = await getAgentByName<Env, GameAgent>(
+      this.env.GameAgent,
+      nextSlug
+    );
+    await game.setup({
+      slug: nextSlug,
+      config: {
+        opponentType:
+          finished.players.X.type === PlayerType.AI ||
+          finished.players.O.type === PlayerType.AI
+            ? PlayerType.AI
+            : PlayerType.HUMAN,
+        variant: finished.variant,
+        boardSize: finished.boardSize,
+        timeControl: finished.clock?.timeControl,
+      },
+      series,
+    });
+    await game.seatRematch(finished.players, await previous.seatTokens());
+    await previous.linkRematch(nextSlug);
+
+    this.sql`INSERT INTO games (slug) VALUES (${nextSlug})`;
+
+    const { createdAt, updatedAt, variant } = await game.state;
+    this.setState({
+      ...this.state,
+      gamesInProgress: [
+        {
+          slug: nextSlug,
+          variant,
+          waitingForPlayers: false,
+          inProgress: true,
+          createdAt,
+          updatedAt,
+        },
+        ...this.state.gamesInProgress,
+      ].slice(0, 5),
+    });
+
+    return nextSlug;
+  }
+
+  /**
+   * Creates the parent record for a new series.
+   *
+   * @param {string} id - Slug of the series' opening game
+   * @param {number} bestOf - Number of games in the series
+   * @returns {Series} The series as seen from its opening game
+   */
+  private openSeries(id: string, bestOf: number): Series {
+    this.sql`INSERT INTO series (id, bestOf) VALUES (${id}, ${bestOf})`;
+    return { id, bestOf, gameNumber: 1, score: { X: 0, O: 0 } };
+  }
+
+  /**
+   * Adds the result of a finished series game to its parent record.
+   *
+   * @param {Series} series - The series as seen from the finished game
+   * @param {SymbolType | "Draw"} winner - Result of the finished game
+   * @param {string} nextSlug - Slug of the game that follows it
+   * @returns {Series} The series as seen from the next game, or a new
+   *                   series opened by it if this one is decided
+   */
+  private recordSeriesResult(
+    series: Series,
+    winner: SymbolType | "Draw",
+    nextSlug: string
+  ): Series {
+    // The first player holds X in odd-numbered games and O in even ones
+    const firstPlayer =
+      series.gameNumber % 2 === 1 ? SymbolType.X : SymbolType.O;
+    const firstWon = winner === firstPlayer ? 1 : 0;
+    const secondWon = winner !== "Draw" && winner !== firstPlayer ? 1 : 0;
+
+    this.sql`UPDATE series SET
+        gamesPlayed = gamesPlayed + 1,
+        firstPlayerWins = firstPlayerWins + ${firstWon},
+        secondPlayerWins = secondPlayerWins + ${secondWon}
+      WHERE id = ${series.id}`;
+
+    const [record] = this.sql<{
+      gamesPlayed: number;
+      firstPlayerWins: number;
+      secondPlayerWins: number;
+    }>`SELECT gamesPlayed, firstPlayerWins, secondPlayerWins
+      FROM series WHERE id = ${series.id}`;
+
+    const { gamesPlayed, firstPlayerWins, secondPlayerWins } = record;
+    if (
+      Math.max(firstPlayerWins, secondPlayerWins) >= winsNeeded(series.bestOf)
+    ) {
+      return this.openSeries(nextSlug, series.bestOf);
+    }
+
+    const gameNumber = gamesPlayed + 1;
+    return {
+      id: series.id,
+      bestOf: series.bestOf,
+      gameNumber,
+      score:
+        gameNumber % 2 === 1
+          ? { X: firstPlayerWins, O: secondPlayerWins }
+          : { X: secondPlayerWins, O: firstPlayerWins },
+    };
+  }
+
+  /**
+   * Plays a bot-vs-bot match between two AI levels, updating both levels'
+   * Elo ratings after every game. The levels take turns playing X, with
+   * `first` opening. Arena games are classic games, each played to the
+   * end by its own Game agent and deleted afterwards; they never appear
+   * in the lobby. Matches can run up many model calls, so this is only
+   * reached through the admin-only `runArena` server function.
+   *
+   * @param {Object} params - Match parameters
+   * @param {AILevel} params.first - Level playing X in the first game
+   * @param {AILevel} params.second - Level it plays against
+   * @param {number} params.games - Number of games to play
+   * @returns {Promise<ArenaMatch>} Wins, draws and losses in the match, and
+   *                                every level's standing after it
+   * @throws {Error} If a level is unknown or the match is too long
+   */
+  async runArenaMatch({
+    first,
+    second,
+    games,
+  }: {
+    first: AILevel;
+    second: AILevel;
+    games: number;
+  }): Promise<ArenaMatch> {
+    validateArenaGames(games);
+    for (const level of [first, second]) {
+      if (!Object.values(AILevel).includes(level)) {
+        throw new Error(`Unknown AI level: ${level}`);
+      }
+    }
+
+    const match = {
+      first,
+      second,
+      games,
+      firstWins: 0,
+      secondWins: 0,
+      draws: 0,
+    };
+    for (let i = 0; i < games; i++) {
+      const firstSymbol = i % 2 === 0 ? SymbolType.X : SymbolType.O;
+      const winner = await this.playArenaGame(
+        firstSymbol === SymbolType.X
+          ? { X: first, O: second }
+          : { X: second, O: first }
+      );
+
+      const score = winner === "Draw" ? 0.5 : winner === firstSymbol ? 1 : 0;
+      if (score === 1) match.firstWins++;
+      else if (score === 0) match.secondWins++;
+      else match.draws++;
+
+      this.recordArenaResult(first, second, score);
+    }
+
+    return { ...match, standings: this.arenaStandings() };
+  }
+
+  /**
+   * Lists every AI level that has played in the arena, highest rated first.
+   * Clients reach it through the server functions.
+   *
+   * @returns {ArenaStanding[]} Each level's rating and record
+   */
+  arenaStandings(): ArenaStanding[] {
+    return this.sql<ArenaStanding>`SELECT level, rating, wins, draws, losses
+      FROM ratings ORDER BY rating DESC`;
+  }
+
+  /**
+   * Counts an AI move made at the given level and, if the bot fell back to
+   * its heuristic move, why. Game agents report every AI move here.
+   *
+   * @param {BotLabel} level - Level of the AI player that moved, or
+   *                           "persona" for a custom AI opponent
+   * @param {FallbackReason} [fallbackReason] - Why the bot fell back, if it did
+   */
+  recordBotMove(level: BotLabel, fallbackReason?: FallbackReason): void {
+    this.sql`INSERT INTO botMoves (level, moves) VALUES (${level}, 1)
+      ON CONFLICT (level) DO UPDATE SET moves = moves + 1`;
+
+    if (fallbackReason) {
+      this.sql`INSERT INTO botFallbacks (level, reason, count)
+        VALUES (${level}, ${fallbackReason}, 1)
+        ON CONFLICT (level, reason) DO UPDATE SET count = count + 1`;
+    }
+  }
+
+  /**
+   * Reports how often the bots at each AI level have fallen back to their
+   * heuristic move, and why. Only reached through the admin-only
+   * `getBotFallbackStats` server function.
+   *
+   * @returns {BotFallbackStats[]} One entry per level that has moved
+   */
+  botFallbackStats(): BotFallbackStats[] {
+    const levels = this.sql<{
+      level: BotLabel;
+      moves: number;
+    }>`SELECT level, moves FROM botMoves ORDER BY level`;
+    const fallbacks = this.sql<{
+      level: BotLabel;
+      reason: FallbackReason;
+      count: number;
+    }>`SELECT level, reason, count FROM botFallbacks`;
+
+    return levels.map(({ level, moves }) => ({
+      level,
+      moves,
+      fallbacks: Object.fromEntries(
+        fallbacks
+          .filter((row) => row.level === level)
+          .map((row) => [row.reason, row.count])
+      ),
+    }));
+  }
+
+  /**
+   * Looks up the move a language model bot chose for a position before.
+   *
+   * @param {string} key - The model and canonical position; see BotExpert
+   * @returns {number | null} The square on the canonical board, or null if
+   *                          the position has not been seen
+   */
+  cachedMove(key: string): number | null {
+    const [cached] = this.sql<{
+      position: number;
+    }>`UPDATE moveCache SET lastUsed = ${Date.now()} WHERE key = ${key}
+      RETURNING position`;
+    return cached?.position ?? null;
+  }
+
+  /**
+   * Remembers the move a language model bot chose for a position. The
+   * first answer for a position stands, so every game gets the same one.
+   * Beyond `MOVE_CACHE_SIZE` positions, the least recently used are
+   * forgotten.
+   *
+   * @param {string} key - The model and canonical position; see BotExpert
+   * @param {number} position - The square on the canonical board
+   */
+  cacheMove(key: string, position: number): void {
+    this.sql`INSERT INTO moveCache (key, position, lastUsed)
+      VALUES (${key}, ${position}, ${Date.now()})
+      ON CONFLICT (key) DO NOTHING`;
+    this.sql`DELETE FROM moveCache WHERE key IN (
+        SELECT key FROM moveCache ORDER BY lastUsed DESC
+        LIMIT -1 OFFSET ${MOVE_CACHE_SIZE}
+      )`;
+  }
+
+  /**
+   * Adds the result of a game against the AI to a player's record.
+   *
+   * @param {string} playerId - Identifies the player across games
+   * @param {AILevel} level - Level of the AI they played
+   * @param {number} score - The player's score: 1 for a win, 0.5 for a
+   *                         draw, 0 for a loss
+   */
+  recordBotResult(playerId: string, level: AILevel, score: number): void {
+    this.sql`INSERT INTO botResults (playerId, level, score)
+      VALUES (${playerId}, ${level}, ${score})`;
+  }
+
+  /**
+   * Works out how strongly adaptive AI should play against a player, from
+   * their most recent results against the AI at any level.
+   *
+   * @param {string} playerId - Identifies the player across games
+   * @returns {number} Share of best moves to play; see `adaptiveStrength`
+   */
+  strengthFor(playerId: string): number {
+    const recent = this.sql<{
+      score: number;
+    }>`SELECT score FROM botResults WHERE playerId = ${playerId}
+      ORDER BY id DESC LIMIT ${ADAPTIVE_HISTORY}`;
+    return adaptiveStrength(recent.map((row) => row.score).reverse());
+  }
+
+  /**
+   * Saves a custom AI opponent so that anyone can pick it in the lobby.
+   * Clients reach it through the server functions.
+   *
+   * @param {PersonaInput} input - The name, persona and strategy as written
+   * @returns {Persona} The saved opponent
+   * @throws {Error} If a part is missing or over its length limit
+   */
+  createPersona(input: PersonaInput): Persona {
+    const { name, persona, strategy } = validatePersona(input);
+    const id = crypto.randomUUID();
+
+    const [saved] = this.sql<Persona>`INSERT INTO personas
+      (id, name, persona, strategy)
+      VALUES (${id}, ${name}, ${persona}, ${strategy})
+      RETURNING id, name, persona, strategy, createdAt`;
+    return saved;
+  }
+
+  /**
+   * Lists the custom AI opponents players can pick.
+   * Clients reach it through the server functions.
+   *
+   * @returns {Persona[]} The most recent MAX_LISTED_PERSONAS, newest first
+   */
+  listPersonas(): Persona[] {
+    return this.sql<Persona>`SELECT id, name, persona, strategy, createdAt
+      FROM personas ORDER BY createdAt DESC, rowid DESC
+      LIMIT ${MAX_LISTED_PERSONAS}`;
+  }
+
+  /**
+   * Looks up a custom AI opponent.
+   *
+   * @param {string} id - The opponent's id
+   * @returns {Persona | null} The opponent, or null if there is none by that id
+   */
+  persona(id: string): Persona | null {
+    const [persona] = this.sql<Persona>`SELECT id, name, persona, strategy,
+      createdAt FROM personas WHERE id = ${id}`;
+    return persona ?? null;
+  }
+
+  /**
+   * Plays one arena game to the end in a throwaway Game agent.
+   *
+   * @param {Record<SymbolType, AILevel>} levels - The level playing each symbol
+   * @returns {Promise<SymbolType | "Draw">} The result of the game
+   */
+  private async playArenaGame(
+    levels: Record<SymbolType, AILevel>
+  ): Promise<SymbolType | "Draw"> {
+    const slug = `arena-${crypto.randomUUID()}`;
+    const game = await getAgentByName<Env, GameAgent>(this.env.GameAgent, slug);
+
+    try {
+      await game.setup({ slug, config: { opponentType: PlayerType.AI } });
+      await game.seatBots(levels);
+      const { game: finished } = await game.playOut();
+      return finished!.winner!;
+    } finally {
+      await game.delete();
+    }
+  }
+
+  /**
+   * Adds the result of an arena game to both levels' records.
+   *
+   * @param {AILevel} first - One level in the game
+   * @param {AILevel} second - The level it played against
+   * @param {number} score - `first`'s score: 1 for a win, 0.5 for a draw,
+   *                         0 for a loss
+   */
+  private recordArenaResult(
+    first: AILevel,
+    second: AILevel,
+    score: number
+  ): void {
+    this.sql`INSERT OR IGNORE INTO ratings (level, rating)
+      VALUES (${first}, ${INITIAL_RATING}), (${second}, ${INITIAL_RATING})`;
+
+    const ratings = this.sql<{ level: AILevel; rating: number }>`
+      SELECT level, rating FROM ratings WHERE level IN (${first}, ${second})`;
+    const ratingOf = (level: AILevel) =>
+      ratings.find((row) => row.level === level)!.rating;
+    const change = ratingChange(ratingOf(first), ratingOf(second), score);
+
+    for (const [level, points, result] of [
+      [first, change, score],
+      [second, -change, 1 - score],
+    ] as const) {
+      this.sql`UPDATE ratings SET
+          rating = rating + ${points},
+          wins = wins + ${result === 1 ? 1 : 0},
+          draws = draws + ${result === 0.5 ? 1 : 0},
+          losses = losses + ${result === 0 ? 1 : 0}
+        WHERE level = ${level}`;
+    }
+  }
+
+  /**
+   * Checks whether a game was created through the lobby, so sockets are
+   * only opened to real games.
+   *
+   * @param {string} slug - The unique identifier of the game
+   * @returns {boolean} True if the lobby created a game with this slug
+   */
+  hasGame(slug: string): boolean {
+    const [game] = this.sql<{
+      slug: string;
+    }>`SELECT slug FROM games WHERE slug = ${slug}`;
+    return game !== undefined;
+  }
+
+  /**
+   * Moves a game that has filled both seats from the seeking list to the
+   * in-progress list. Games call this themselves when they start; games
+   * that are not seeking players are left as they are.
+   *
+   * @param {string} slug - The unique identifier of the game
+   */
+  markInProgress(slug: string): void {
+    const game = this.state.gamesSeekingPlayers.find(
+      (seeking) => seeking.slug === slug
+    );
+    if (!game) return;
+
+    this.setState({
+      gamesSeekingPlayers: this.state.gamesSeekingPlayers.filter(
+        (seeking) => seeking.slug !== slug
+      ),
+      gamesInProgress: [
+        {
+          ...game,
+          waitingForPlayers: false,
+          inProgress: true,
+          updatedAt: new Date().toISOString(),
+        },
+        ...this.state.gamesInProgress,
+      ].slice(0, 5),
+    });
+  }
+
+  /**
+   * Drops a game that has ended from the lobby lists. Games call this
+   * themselves once they are over. Games that are not listed, such as
+   * arena games, leave the lobby state untouched, so connected lobbies
+   * are not sent an unchanged state.
+   *
+   * @param {string} slug - The unique identifier of the game
+   */
+  removeFromLobby(slug: string): void {
+    const listed = [
+      ...this.state.gamesSeekingPlayers,
+      ...this.state.gamesInProgress,
+    ].some((game) => game.slug === slug);
+    if (!listed) return;
+
+    this.setState({
+      gamesSeekingPlayers: this.state.gamesSeekingPlayers.filter(
+        (game) => game.slug !== slug
+      ),
+      gamesInProgress: this.state.gamesInProgress.filter(
+        (game) => game.slug !== slug
+      ),
+    });
+  }
+
   /**
    * Retrieves all game slugs from the database, ordered by creation time.
-   * Callable from the client via RPC.
+   * Clients reach it through the server functions.
    * 
    * Useful for administrative purposes or debugging to see all games
    * that have ever been created (not just the ones in the lobby state).
    * 
    * @returns {Promise<string[]>} Array of game slugs, newest first
    */
-  @callable()
   async allGameSlugs(): Promise<string[]> {
     const rows = this.sql<{
       slug: string;
@@ -139,7 +724,7 @@ export class LobbyAgent extends Agent<Env, LobbyState> {
 
   /**
    * Deletes a game and removes it from the lobby and database.
-   * Callable from the client via RPC.
+   * Clients reach it through the server functions.
    * 
    * This method:
    * 1. Calls the GameAgent's delete() method to destroy the Durable Object
@@ -150,7 +735,6 @@ export class LobbyAgent extends Agent<Env, LobbyState> {
    * @returns {Promise<void>}
    * @throws {Error} If no slug is provided
    */
-  @callable()
   async deleteGame(slug: string): Promise<void> {
     if (!slug) {
       throw new Error("No slug provided");
@@ -158,13 +742,6 @@ export class LobbyAgent extends Agent<Env, LobbyState> {
     const game = await getAgentByName<Env, GameAgent>(this.env.GameAgent, slug);
     await game.delete();
     this.sql`DELETE FROM games WHERE slug = ${slug}`;
-    this.setState({
-      gamesSeekingPlayers: this.state.gamesSeekingPlayers.filter(
-        (game) => game.slug !== slug
-      ),
-      gamesInProgress: this.state.gamesInProgress.filter(
-        (game) => game.slug !== slug
-      ),
-    });
+    this.removeFromLobby(slug);
   }
 }
@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FallbackReason } from "@/types";
+import { BaseBotPlayer } from "./BotPlayer";
+import { BotAdaptive } from "./BotAdaptive";
+import { newGame, testEnv } from "@/test/BotMatch";
+
+/** Strong bot that never comes up with a move, so it always falls back */
+class NoMoveBot extends BaseBotPlayer {
+  protected async generateMove(): Promise<number | null> {
+    return null;
+  }
+}
+
+describe("BotAdaptive", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("reports the strong bot's fallback when it plays the strong move", async () => {
+    const bot = new BotAdaptive(testEnv, new NoMoveBot(testEnv), 1);
+
+    expect(await bot.makeMove(newGame())).toBe(4);
+    expect(bot.fallbackReason).toBe(FallbackReason.PARSE_FAILURE);
+  });
+
+  it("reports no fallback for a random move", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const bot = new BotAdaptive(testEnv, new NoMoveBot(testEnv), 0);
+
+    await bot.makeMove(newGame());
+    expect(bot.fallbackReason).toBeUndefined();
+  });
+
+  it("clears the strong bot's fallback once a move is its own", async () => {
+    const bot = new BotAdaptive(testEnv, new NoMoveBot(testEnv), 0.5);
+    const random = vi.spyOn(Math, "random");
+
+    random.mockReturnValue(0.1);
+    await bot.makeMove(newGame());
+    expect(bot.fallbackReason).toBe(FallbackReason.PARSE_FAILURE);
+
+    random.mockReturnValue(0.9);
+    await bot.makeMove(newGame());
+    expect(bot.fallbackReason).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { BaseBotPlayer, BotPlayer } from "./BotPlayer";
+import { FallbackReason, Game, SymbolType } from "../types";
+import { legalMoves } from "@/lib/GameEngine";
+
+/**
+ * Adaptive bot. It plays the move of a strong bot a set share of the time
+ * and a random legal square otherwise, so it can be tuned anywhere between
+ * a pushover and the strong bot itself. Which bot counts as strong depends
+ * on the game; see `GameAgent.getBotForGame`.
+ */
+export class BotAdaptive extends BaseBotPlayer {
+  /** Why the strong bot fell back, when the last move was its move */
+  private strongFallback?: FallbackReason;
+
+  /**
+   * @param {Env} env - Worker environment
+   * @param {BotPlayer} strong - Bot whose moves count as best
+   * @param {number} strength - Share of moves, from 0 to 1, taken from it
+   */
+  constructor(
+    env: Env,
+    private strong: BotPlayer,
+    private strength: number
+  ) {
+    super(env);
+  }
+
+  /**
+   * Plays a move, reporting the strong bot's fallback as its own when it
+   * played the strong bot's move
+   */
+  async makeMove(game: Game, signal?: AbortSignal): Promise<number> {
+    this.strongFallback = undefined;
+    const move = await super.makeMove(game, signal);
+    this.fallbackReason ??= this.strongFallback;
+    return move;
+  }
+
+  protected async generateMove(
+    game: Game,
+    signal?: AbortSignal
+  ): Promise<number | null> {
+    if (Math.random() < this.strength) {
+      const move = await this.strong.makeMove(game, signal);
+      this.strongFallback = this.strong.fallbackReason;
+      return move;
+    }
+
+    const moves = legalMoves(game);
+    return moves[Math.floor(Math.random() * moves.length)] ?? null;
+  }
+
+  choosePiece(game: Game, position: number): SymbolType {
+    return this.strong.choosePiece(game, position);
+  }
+}
@@ -0,0 +1,22 @@
+import { BaseBotPlayer } from "./BotPlayer";
+import { Game } from "../types";
+import { legalMoves, playMove } from "@/lib/GameEngine";
+
+/**
+ * Beginner bot. It takes a win when one is on the board and otherwise
+ * plays a random square, so it never blocks and has no plan. Rule-based,
+ * so it needs no AI binding.
+ */
+export class BotBeginner extends BaseBotPlayer {
+  protected async generateMove(game: Game): Promise<number | null> {
+    const symbol = game.currentTurn;
+    const moves = legalMoves(game);
+
+    const win = moves.find(
+      (position) => playMove(game, symbol, position).winner === symbol
+    );
+    if (win !== undefined) return win;
+
+    return moves[Math.floor(Math.random() * moves.length)] ?? null;
+  }
+}
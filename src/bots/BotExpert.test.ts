@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { Board, FallbackReason, SymbolType } from "@/types";
+import { BotExpert } from "./BotExpert";
+import { MoveCache } from "./MoveCache";
+import { FakeModelProvider } from "@/models";
+import { symmetries } from "@/lib/Symmetry";
+import { gameFromBoard, newGame, testEnv } from "@/test/BotMatch";
+
+/** Move cache kept in memory for the length of a test */
+class MemoryMoveCache implements MoveCache {
+  readonly moves = new Map<string, number>();
+
+  async get(key: string): Promise<number | null> {
+    return this.moves.get(key) ?? null;
+  }
+
+  async set(key: string, position: number): Promise<void> {
+    this.moves.set(key, position);
+  }
+}
+
+describe("BotExpert", () => {
+  it("plays the square the model names", async () => {
+    const model = new FakeModelProvider(["4"]);
+    const bot = new BotExpert(testEnv, model);
+
+    expect(await bot.makeMove(newGame())).toBe(4);
+    expect(bot.fallbackReason).toBeUndefined();
+
+    const [request] = model.requests;
+    expect(request.instructions).toContain("Your symbol is X");
+    expect(request.input).toContain("You are playing X");
+    expect(request.input).toContain('{"board":[null,null,null');
+  });
+
+  it("asks again when a reply names no square", async () => {
+    const model = new FakeModelProvider(["I'd go for the center", "4"]);
+    const bot = new BotExpert(testEnv, model);
+
+    expect(await bot.makeMove(newGame())).toBe(4);
+    expect(model.requests).toHaveLength(2);
+  });
+
+  it("falls back once every reply names a taken square", async () => {
+    const game = gameFromBoard("XX--O----", SymbolType.O);
+    const model = new FakeModelProvider(["0", "1", "4"]);
+    const bot = new BotExpert(testEnv, model);
+
+    // The fallback blocks X's row
+    expect(await bot.makeMove(game)).toBe(2);
+    expect(bot.fallbackReason).toBe(FallbackReason.ILLEGAL_SQUARE);
+    expect(model.requests).toHaveLength(3);
+  });
+
+  it("falls back when the model gives no reply", async () => {
+    const bot = new BotExpert(testEnv, new FakeModelProvider([]));
+
+    expect(await bot.makeMove(newGame())).toBe(4);
+    expect(bot.fallbackReason).toBe(FallbackReason.PARSE_FAILURE);
+  });
+
+  it("reuses a cached move on every rotation and reflection of the position", async () => {
+    const game = gameFromBoard("XO---X---", SymbolType.O);
+    const cache = new MemoryMoveCache();
+    const model = new FakeModelProvider(["8"]);
+    const bot = new BotExpert(testEnv, model, cache);
+
+    expect(await bot.makeMove(game)).toBe(8);
+    expect(cache.moves.size).toBe(1);
+
+    for (const perm of symmetries(3, 3)) {
+      const board: Board = perm.map((i) => game.board[i]);
+      // Square 8 of the original, seen through the same symmetry
+      expect(await bot.makeMove({ ...game, board })).toBe(perm.indexOf(8));
+    }
+    expect(model.requests).toHaveLength(1);
+    expect(bot.fallbackReason).toBeUndefined();
+  });
+
+  it("leaves the cache alone on boards too large to repeat positions", async () => {
+    const game = newGame({ boardSize: { width: 5, height: 5, winLength: 4 } });
+    const cache = new MemoryMoveCache();
+    const model = new FakeModelProvider(["12", "12"]);
+    const bot = new BotExpert(testEnv, model, cache);
+
+    expect(await bot.makeMove(game)).toBe(12);
+    expect(await bot.makeMove(game)).toBe(12);
+    expect(cache.moves.size).toBe(0);
+    expect(model.requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,58 @@
+import { BaseBotPlayer } from "./BotPlayer";
+import { Game } from "../types";
+import { legalMoves, playMove } from "@/lib/GameEngine";
+import { nextTurn, winningLines } from "@/lib/GameRules";
+
+/** Chance of playing a random square instead of the strategic move */
+const BLUNDER_RATE = 0.2;
+
+/**
+ * Intermediate bot. It plays sound strategy but now and then loses
+ * concentration. In order, it:
+ * 1. **Wins**: Takes any move that wins outright
+ * 2. **Blunders**: One time in five, plays a random square
+ * 3. **Blocks**: Stops the opponent winning on their next move
+ * 4. **Position**: Prefers squares on the most winning lines, which on a
+ *    3x3 board means center, then corners, then edges
+ *
+ * It looks no further than one move ahead, so forks get past it.
+ * Rule-based, so it needs no AI binding.
+ */
+export class BotIntermediate extends BaseBotPlayer {
+  protected async generateMove(game: Game): Promise<number | null> {
+    const symbol = game.currentTurn;
+    const opponent = nextTurn(symbol);
+    const moves = legalMoves(game);
+
+    const win = moves.find(
+      (position) => playMove(game, symbol, position).winner === symbol
+    );
+    if (win !== undefined) return win;
+
+    if (Math.random() < BLUNDER_RATE) {
+      return moves[Math.floor(Math.random() * moves.length)] ?? null;
+    }
+
+    const block = moves.find(
+      (position) => playMove(game, opponent, position).winner === opponent
+    );
+    if (block !== undefined) return block;
+
+    return this.bestPlaced(game, moves);
+  }
+
+  /**
+   * Picks the square that lies on the most winning lines, breaking ties at
+   * random.
+   */
+  private bestPlaced(game: Game, moves: number[]): number | null {
+    const linesThrough = new Array(game.board.length).fill(0);
+    for (const line of winningLines(game.boardSize)) {
+      for (const i of line) linesThrough[i]++;
+    }
+
+    const most = Math.max(...moves.map((position) => linesThrough[position]));
+    const best = moves.filter((position) => linesThrough[position] === most);
+    return best[Math.floor(Math.random() * best.length)] ?? null;
+  }
+}
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SymbolType } from "@/types";
+import { BotPerfect } from "./BotPerfect";
+import { BotIntermediate } from "./BotIntermediate";
+import {
+  gameFromBoard,
+  newGame,
+  playMatch,
+  RandomBot,
+  seededRandom,
+  testEnv,
+} from "@/test/BotMatch";
+
+describe("BotPerfect", () => {
+  beforeEach(() => {
+    vi.spyOn(Math, "random").mockImplementation(seededRandom(12));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("never loses to random play", async () => {
+    const result = await playMatch(
+      new BotPerfect(testEnv),
+      new RandomBot(testEnv),
+      200
+    );
+
+    expect(result.secondWins).toBe(0);
+    expect(result.firstWins).toBeGreaterThan(result.draws);
+  });
+
+  it("never loses to the intermediate bot", async () => {
+    const result = await playMatch(
+      new BotPerfect(testEnv),
+      new BotIntermediate(testEnv),
+      200
+    );
+
+    expect(result.secondWins).toBe(0);
+  });
+
+  it("draws against itself", async () => {
+    const result = await playMatch(
+      new BotPerfect(testEnv),
+      new BotPerfect(testEnv),
+      2
+    );
+
+    expect(result).toEqual({ firstWins: 0, secondWins: 0, draws: 2 });
+  });
+
+  it("takes the lowest of equally good squares", async () => {
+    const bot = new BotPerfect(testEnv);
+
+    // Every opening draws with best play
+    expect(await bot.makeMove(newGame())).toBe(0);
+
+    // X wins at once on 5, 6 or 8
+    const threeWins = gameFromBoard("XOOXX--O-", SymbolType.X);
+    expect(await bot.makeMove(threeWins)).toBe(5);
+  });
+
+  it("always gives the same reply to the same position", async () => {
+    const game = gameFromBoard("----X----", SymbolType.O);
+    const replies = await Promise.all(
+      Array.from({ length: 5 }, () => new BotPerfect(testEnv).makeMove(game))
+    );
+
+    expect(new Set(replies).size).toBe(1);
+    expect(replies[0]).toBe(0);
+  });
+});
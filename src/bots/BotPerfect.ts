@@ -0,0 +1,95 @@
+import { BaseBotPlayer } from "./BotPlayer";
+import { Game, SymbolType } from "../types";
+import { legalMoves, legalPieces, playMove } from "@/lib/GameEngine";
+
+/** Largest board the bot will search to the end; 3x3 boards in any variant */
+export const PERFECT_PLAY_SQUARES = 9;
+
+/**
+ * Value of every position searched so far, from the point of view of the
+ * side to move. Positions are pure functions of the board, so the table
+ * is shared by every game in the isolate.
+ */
+const transpositions = new Map<string, number>();
+
+/**
+ * Deterministic perfect player. It searches the whole game tree with
+ * negamax, remembering positions it has already valued in a transposition
+ * table, and never calls a model, so it needs no AI binding.
+ *
+ * Wins are worth more the sooner they come and losses cost more the sooner
+ * they come, so it wins as quickly and loses as slowly as possible. Among
+ * equally good moves it always takes the lowest square, so the same
+ * position always gets the same reply.
+ *
+ * It plays through the rules engine, so it is perfect under any variant,
+ * but a full search is only practical on boards of up to
+ * PERFECT_PLAY_SQUARES squares.
+ */
+export class BotPerfect extends BaseBotPlayer {
+  protected async generateMove(game: Game): Promise<number | null> {
+    return this.bestMove(game)?.position ?? null;
+  }
+
+  /**
+   * Places whichever piece the best line through `position` calls for.
+   */
+  choosePiece(game: Game, position: number): SymbolType {
+    const symbol = game.currentTurn;
+    let best = symbol;
+    let bestScore = -Infinity;
+
+    for (const piece of legalPieces(game, symbol)) {
+      const score = -this.negamax(playMove(game, symbol, position, piece));
+      if (score > bestScore) {
+        best = piece;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  private bestMove(game: Game): { position: number; score: number } | null {
+    const symbol = game.currentTurn;
+    let best: { position: number; score: number } | null = null;
+
+    for (const position of legalMoves(game)) {
+      for (const piece of legalPieces(game, symbol)) {
+        const score = -this.negamax(playMove(game, symbol, position, piece));
+        if (!best || score > best.score) best = { position, score };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Values a position for the side to move: positive if they can force a
+   * win, negative if they will lose against best play, 0 for a draw.
+   */
+  private negamax(game: Game): number {
+    const key = `${game.variant}:${game.currentTurn}:${game.board
+      .map((square) => square ?? "-")
+      .join("")}`;
+    const cached = transpositions.get(key);
+    if (cached !== undefined) return cached;
+
+    let value: number;
+    if (game.winner) {
+      // Scale by the squares left so that quicker wins score higher
+      const margin = game.board.filter((square) => !square).length + 1;
+      value =
+        game.winner === "Draw"
+          ? 0
+          : game.winner === game.currentTurn
+            ? margin
+            : -margin;
+    } else {
+      value = this.bestMove(game)?.score ?? 0;
+    }
+
+    transpositions.set(key, value);
+    return value;
+  }
+}
@@ -0,0 +1,31 @@
+import { BotExpert } from "./BotExpert";
+import { Game, Persona } from "../types";
+import { personaSystemPrompt } from "./BotPrompts";
+import { ModelProvider } from "@/models";
+
+/**
+ * Language model bot that plays to a player-written persona and strategy.
+ * Its replies go through the same checks as any bot's, so a persona that
+ * talks the model into an illegal square only earns the fallback move.
+ *
+ * It keeps no move cache: the cache is shared by every game, and a
+ * persona's moves are its own.
+ */
+export class BotPersona extends BotExpert {
+  /**
+   * @param {Env} env - Worker environment
+   * @param {ModelProvider} model - Model that chooses the moves
+   * @param {Persona} persona - The custom AI opponent to play
+   */
+  constructor(
+    env: Env,
+    model: ModelProvider,
+    private persona: Persona
+  ) {
+    super(env, model);
+  }
+
+  systemPrompt(game: Game): string {
+    return personaSystemPrompt(this.persona, game);
+  }
+}
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FallbackReason, Game, SymbolType } from "@/types";
+import { BaseBotPlayer } from "./BotPlayer";
+import { gameFromBoard, newGame, testEnv } from "@/test/BotMatch";
+
+/** Bot that never comes up with a move, so every move is the fallback */
+class NoMoveBot extends BaseBotPlayer {
+  protected async generateMove(): Promise<number | null> {
+    return null;
+  }
+}
+
+/** Bot whose move generation always fails */
+class FailingBot extends BaseBotPlayer {
+  protected async generateMove(): Promise<number | null> {
+    throw new Error("Model unavailable");
+  }
+}
+
+function fallback(game: Game): Promise<number> {
+  return new NoMoveBot(testEnv).makeMove(game);
+}
+
+describe("fallback move", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("wins before blocking", async () => {
+    // X wins on 2; O threatens 5
+    expect(await fallback(gameFromBoard("XX-OO----", SymbolType.X))).toBe(2);
+  });
+
+  it("blocks before taking the center", async () => {
+    expect(await fallback(gameFromBoard("XX-O-----", SymbolType.O))).toBe(2);
+  });
+
+  it("takes the center when nothing is threatened", async () => {
+    expect(await fallback(gameFromBoard("X--------", SymbolType.O))).toBe(4);
+    expect(
+      await fallback(newGame({ boardSize: { width: 5, height: 5, winLength: 4 } }))
+    ).toBe(12);
+  });
+
+  it("takes a corner once the center is gone", async () => {
+    expect(await fallback(gameFromBoard("----X----", SymbolType.O))).toBe(0);
+    expect(await fallback(gameFromBoard("O---X----", SymbolType.X))).toBe(2);
+  });
+
+  it("takes the first legal square once center and corners are gone", async () => {
+    // 4x4, four in a row: center 10, corners 0, 3, 12 and 15
+    const game = newGame({ boardSize: { width: 4, height: 4, winLength: 4 } });
+    const board = [...game.board];
+    board[0] = board[15] = SymbolType.X;
+    board[3] = board[10] = board[12] = SymbolType.O;
+
+    expect(await fallback({ ...game, board })).toBe(1);
+  });
+
+  it("records why it fell back", async () => {
+    const noMove = new NoMoveBot(testEnv);
+    await noMove.makeMove(newGame());
+    expect(noMove.fallbackReason).toBe(FallbackReason.PARSE_FAILURE);
+
+    const failing = new FailingBot(testEnv);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await failing.makeMove(newGame())).toBe(4);
+    expect(failing.fallbackReason).toBe(FallbackReason.ERROR);
+  });
+
+  it("has nothing to fall back on when the board is full", async () => {
+    const full = gameFromBoard("XOXXOOOXX", SymbolType.O);
+    await expect(fallback({ ...full, winner: undefined })).rejects.toThrow(
+      "No valid moves"
+    );
+  });
+});
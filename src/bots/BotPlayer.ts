@@ -1,83 +1,175 @@
-import { Board } from "@/types";
+import { FallbackReason, Game, SymbolType } from "@/types";
+import { legalMoves, legalPieces, playMove } from "@/lib/GameEngine";
+import { nextTurn } from "@/lib/GameRules";
 /**
  * Interface for AI bot players
- * Implementations should provide different difficulty levels via system prompts
+ * LLM-backed implementations provide different difficulty levels via system
+ * prompts; rule-based implementations may omit them.
  */
 export interface BotPlayer {
   /**
-   * Internal AI instructions defining bot behavior and strategy
+   * Internal AI instructions defining bot behavior and strategy, written
+   * for the side to move in the given game
    */
-  readonly systemPrompt: string;
+  systemPrompt?(game: Game): string;
   /**
-   * User-facing prompt template for current board state
+   * Prompt describing the current position: the bot's symbol, whose turn
+   * it is and the board
    */
-  readonly userPrompt: string;
+  userPrompt?(game: Game): string;
   /**
-   * Makes a move on the given board
-   * @param board - Current game board state
-   * @returns Promise resolving to the position index (0-8) to play
-   * @throws Error if no valid move is available or AI fails
+   * Makes a move on the given game's board
+   * @param game - Current game state, including board and board size
+   * @param signal - Aborts the move: with a TimeoutError when the time
+   *                 budget runs out, which plays the fallback move, or with
+   *                 any other reason to cancel it
+   * @returns Promise resolving to the position index to play
+   * @throws Error if no valid move is available, or the signal's reason
+   *         if the move was cancelled
    */
-  makeMove(board: Board): Promise<number>;
+  makeMove(game: Game, signal?: AbortSignal): Promise<number>;
+  /**
+   * Chooses which piece to place, for variants where players pick X or O
+   * each move
+   * @param game - Current game state
+   * @param position - The position the bot has chosen to play
+   * @returns The piece to place; the bot's own symbol in most variants
+   */
+  choosePiece(game: Game, position: number): SymbolType;
+  /**
+   * Why the last move came from the fallback strategy; undefined if the
+   * bot's own move was played
+   */
+  readonly fallbackReason?: FallbackReason;
 }
 
 export abstract class BaseBotPlayer implements BotPlayer {
-  abstract readonly systemPrompt: string;
-  abstract readonly userPrompt: string;
+  fallbackReason?: FallbackReason;
+
+  /**
+   * Times the bot tries to come up with a move before falling back.
+   * Rule-based bots get it right first time; bots that can fail now and
+   * then raise it.
+   */
+  protected maxAttempts = 1;
 
   constructor(protected env: Env) {}
 
   /**
    * Template method: subclasses implement AI-specific move logic
    */
-  protected abstract generateMove(board: Board): Promise<number | null>;
+  protected abstract generateMove(
+    game: Game,
+    signal?: AbortSignal
+  ): Promise<number | null>;
 
   /**
-   * Public interface with built-in fallback logic
+   * Public interface with built-in retry and fallback logic
    */
-  async makeMove(board: Board): Promise<number> {
-    try {
-      // Try AI-generated move
-      const move = await this.generateMove(board);
-
-      // Validate the move
-      if (this.isValidMove(move, board)) {
-        return move;
+  async makeMove(game: Game, signal?: AbortSignal): Promise<number> {
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      try {
+        signal?.throwIfAborted();
+
+        // Try AI-generated move
+        const move = await this.generateMove(game, signal);
+
+        // Validate the move
+        if (this.isValidMove(move, game)) {
+          this.fallbackReason = undefined;
+          return move;
+        }
+
+        // AI returned invalid move, try again or use fallback
+        this.fallbackReason =
+          move === null
+            ? FallbackReason.PARSE_FAILURE
+            : FallbackReason.ILLEGAL_SQUARE;
+      } catch (error) {
+        // A cancelled move is abandoned; a timed-out one falls back
+        if (signal?.aborted && !isTimeout(signal.reason)) {
+          throw signal.reason;
+        }
+
+        console.error("Bot move generation failed:", error);
+        this.fallbackReason = isTimeout(error)
+          ? FallbackReason.TIMEOUT
+          : FallbackReason.ERROR;
+        if (signal?.aborted) break;
       }
+    }
 
-      // AI returned invalid move, use fallback
-      return this.getFallbackMove(board);
-    } catch (error) {
-      console.error("Bot move generation failed:", error);
-      // Use fallback on any error
-      return this.getFallbackMove(board);
+    return this.getFallbackMove(game);
+  }
+
+  /**
+   * Chooses a piece that wins on the spot if there is one, otherwise one
+   * that does not hand the game to the opponent
+   */
+  choosePiece(game: Game, position: number): SymbolType {
+    const symbol = game.currentTurn;
+    const pieces = legalPieces(game, symbol);
+    let safe = pieces[0];
+
+    for (const piece of pieces) {
+      const { winner } = playMove(game, symbol, position, piece);
+      if (winner === symbol) return piece;
+      if (!winner || winner === "Draw") safe = piece;
     }
+
+    return safe;
   }
 
   /**
    * Validates if a move is legal
    */
-  protected isValidMove(move: number | null, board: Board): move is number {
-    return (
-      move !== null &&
-      !isNaN(move) &&
-      move >= 0 &&
-      move <= 8 &&
-      board[move] === null
-    );
+  protected isValidMove(move: number | null, game: Game): move is number {
+    return move !== null && legalMoves(game).includes(move);
   }
   /**
-   * Fallback strategy when AI fails or returns invalid move
+   * Fallback strategy when AI fails or returns invalid move. A quick
+   * heuristic that works in any variant, taking the first of:
+   * 1. A move that wins outright
+   * 2. A move that stops the opponent winning next turn
+   * 3. The center square
+   * 4. A corner
+   * 5. Any legal square
    */
-  protected getFallbackMove(board: Board): number {
-    // Strategy 1: Find first empty position
-    const emptyPosition = board.findIndex((pos) => pos === null);
+  protected getFallbackMove(game: Game): number {
+    const symbol = game.currentTurn;
+    const opponent = nextTurn(symbol);
+    const moves = legalMoves(game);
 
-    if (emptyPosition !== -1) {
-      return emptyPosition;
+    // No valid moves (board full or invalid)
+    if (moves.length === 0) {
+      throw new Error("No valid moves available on the board");
     }
 
-    // Strategy 2: No valid moves (board full or invalid)
-    throw new Error("No valid moves available on the board");
+    const win = moves.find(
+      (position) => playMove(game, symbol, position).winner === symbol
+    );
+    if (win !== undefined) return win;
+
+    const block = moves.find(
+      (position) => playMove(game, opponent, position).winner === opponent
+    );
+    if (block !== undefined) return block;
+
+    const { width, height } = game.boardSize;
+    const center = Math.floor(height / 2) * width + Math.floor(width / 2);
+    const corners = [0, width - 1, (height - 1) * width, height * width - 1];
+
+    return (
+      [center, ...corners].find((position) => moves.includes(position)) ??
+      moves[0]
+    );
   }
 }
+
+/**
+ * Whether an error is a time budget running out, as thrown by
+ * `AbortSignal.timeout`.
+ */
+function isTimeout(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === "TimeoutError";
+}
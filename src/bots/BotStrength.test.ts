@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Board, SymbolType } from "@/types";
+import { BotBeginner } from "./BotBeginner";
+import { BotIntermediate } from "./BotIntermediate";
+import { BotExpert } from "./BotExpert";
+import { BotPerfect } from "./BotPerfect";
+import { FakeModelProvider } from "@/models";
+import { newGame, playMatch, seededRandom, testEnv } from "@/test/BotMatch";
+
+/** Games in each match; sides alternate, so each bot plays X half the time */
+const GAMES = 100;
+
+/**
+ * Stand-in for the Expert model that answers every request with the
+ * perfect bot's move, read from the prompt just as the model would. With
+ * it these tests rank the levels assuming the model plays perfectly; how
+ * Expert prompts the model and reads its replies is tested in
+ * BotExpert.test.ts.
+ */
+function perfectModel(): FakeModelProvider {
+  const perfect = new BotPerfect(testEnv);
+  return new FakeModelProvider(async ({ input }) => {
+    const [, symbol] = input.match(/You are playing (X|O)/)!;
+    const { board } = JSON.parse(input.match(/\{"board":.*\}/)![0]) as {
+      board: Board;
+    };
+    const game = { ...newGame(), board, currentTurn: symbol as SymbolType };
+    return String(await perfect.makeMove(game));
+  });
+}
+
+/** Points over a match: 1 per win and half per draw */
+function score(wins: number, draws: number): number {
+  return wins + draws / 2;
+}
+
+describe("bot strength with a perfect Expert model", () => {
+  beforeEach(() => {
+    vi.spyOn(Math, "random").mockImplementation(seededRandom(2024));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("ranks Expert above Intermediate above Beginner", async () => {
+    const model = perfectModel();
+    const expert = new BotExpert(testEnv, model);
+    const intermediate = new BotIntermediate(testEnv);
+    const beginner = new BotBeginner(testEnv);
+
+    const expertVsIntermediate = await playMatch(expert, intermediate, GAMES);
+    const intermediateVsBeginner = await playMatch(
+      intermediate,
+      beginner,
+      GAMES
+    );
+    const expertVsBeginner = await playMatch(expert, beginner, GAMES);
+
+    // Every Expert move came from the model's answers, none from the fallback
+    expect(model.requests.length).toBeGreaterThan(0);
+    expect(expert.fallbackReason).toBeUndefined();
+
+    expect(expertVsIntermediate.secondWins).toBe(0);
+    expect(expertVsIntermediate.firstWins).toBeGreaterThan(0);
+
+    expect(intermediateVsBeginner.firstWins).toBeGreaterThan(
+      intermediateVsBeginner.secondWins
+    );
+
+    expect(expertVsBeginner.secondWins).toBe(0);
+    expect(
+      score(expertVsBeginner.firstWins, expertVsBeginner.draws)
+    ).toBeGreaterThan(
+      score(intermediateVsBeginner.firstWins, intermediateVsBeginner.draws)
+    );
+  });
+
+  it("has Intermediate draw more often against Expert than Beginner does", async () => {
+    const expert = new BotExpert(testEnv, perfectModel());
+
+    const againstIntermediate = await playMatch(
+      expert,
+      new BotIntermediate(testEnv),
+      GAMES
+    );
+    const againstBeginner = await playMatch(
+      expert,
+      new BotBeginner(testEnv),
+      GAMES
+    );
+
+    expect(againstIntermediate.draws).toBeGreaterThan(againstBeginner.draws);
+  });
+});
@@ -0,0 +1,79 @@
+import { BaseBotPlayer } from "./BotPlayer";
+import { Game, SymbolType } from "../types";
+import { legalMoves, playMove } from "@/lib/GameEngine";
+import { nextTurn } from "@/lib/GameRules";
+import { SUB_BOARD_SQUARES } from "@/lib/UltimateRules";
+
+/** Preference for squares within a sub-board: center, then corners, then sides */
+const SQUARE_WEIGHTS = [3, 1, 3, 1, 4, 1, 3, 1, 3];
+
+/**
+ * Rule-based bot for ultimate tic-tac-toe. It never calls a model: every
+ * candidate comes from the rules engine, so its moves are always legal.
+ *
+ * Each legal move is scored by looking one move ahead:
+ * 1. **Win**: Win the game outright
+ * 2. **Capture**: Win the sub-board being played in
+ * 3. **Block**: Stop the opponent winning that sub-board
+ * 4. **Safe Send**: Avoid sending the opponent somewhere they can win a
+ *    sub-board (or the game), or giving them a free choice of sub-board
+ * 5. **Position**: Prefer centers and corners
+ */
+export class BotUltimate extends BaseBotPlayer {
+  protected async generateMove(game: Game): Promise<number | null> {
+    const symbol = game.currentTurn;
+    let best: number | null = null;
+    let bestScore = -Infinity;
+
+    for (const position of legalMoves(game)) {
+      const score = this.scoreMove(game, symbol, position) + Math.random();
+      if (score > bestScore) {
+        best = position;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  private scoreMove(game: Game, symbol: SymbolType, position: number): number {
+    const opponent = nextTurn(symbol);
+    const subBoard = Math.floor(position / SUB_BOARD_SQUARES);
+    const square = position % SUB_BOARD_SQUARES;
+
+    const after = playMove(game, symbol, position);
+    if (after.winner === symbol) return 1000;
+
+    let score = SQUARE_WEIGHTS[square];
+
+    if (after.ultimate!.metaBoard[subBoard] === symbol) {
+      score += 100;
+    } else {
+      // Would the opponent have won this sub-board by playing here?
+      const blocked = playMove(
+        { ...game, currentTurn: opponent },
+        opponent,
+        position
+      );
+      if (blocked.ultimate!.metaBoard[subBoard] === opponent) score += 50;
+    }
+
+    if (after.winner) return score;
+
+    // A free choice of sub-board is worth a lot to the opponent
+    if (after.ultimate!.activeBoard === null) score -= 20;
+
+    for (const reply of legalMoves(after)) {
+      const replied = playMove(after, opponent, reply);
+      if (replied.winner === opponent) return score - 500;
+
+      const replySubBoard = Math.floor(reply / SUB_BOARD_SQUARES);
+      if (replied.ultimate!.metaBoard[replySubBoard] === opponent) {
+        score -= 40;
+        break;
+      }
+    }
+
+    return score;
+  }
+}
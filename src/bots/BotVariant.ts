@@ -0,0 +1,91 @@
+import { BaseBotPlayer } from "./BotPlayer";
+import { Game, SymbolType } from "../types";
+import { legalMoves, legalPieces, playMove } from "@/lib/GameEngine";
+
+/** Boards with at most this many open squares are searched in full */
+const SMALL_BOARD_SQUARES = 36;
+
+/**
+ * Rule-based bot that can play any registered variant. It asks the rules
+ * engine what a move leads to rather than knowing any variant itself, so
+ * its moves are always legal and it understands misère or Order and Chaos
+ * lines as well as classic ones.
+ *
+ * Looking one move ahead, it:
+ * 1. **Wins**: Takes any move that wins outright
+ * 2. **Stays Safe**: Avoids moves that lose outright or let the opponent
+ *    win with their reply
+ * 3. Otherwise picks at random among the remaining moves
+ *
+ * On large boards only squares next to existing pieces are considered.
+ * A line can only be completed next to a piece already in it, so this
+ * never misses a win or a threat, and keeps gomoku-sized boards fast.
+ */
+export class BotVariant extends BaseBotPlayer {
+  protected async generateMove(game: Game): Promise<number | null> {
+    const symbol = game.currentTurn;
+    const scored = this.candidateMoves(game).map((position) => ({
+      position,
+      score: Math.max(
+        ...legalPieces(game, symbol).map((piece) =>
+          this.scoreMove(game, position, piece)
+        )
+      ),
+    }));
+
+    const best = Math.max(...scored.map(({ score }) => score));
+    const candidates = scored.filter(({ score }) => score === best);
+    const choice = candidates[Math.floor(Math.random() * candidates.length)];
+
+    return choice?.position ?? null;
+  }
+
+  private scoreMove(game: Game, position: number, piece: SymbolType): number {
+    const symbol = game.currentTurn;
+    const after = playMove(game, symbol, position, piece);
+
+    if (after.winner === symbol) return 2;
+    if (after.winner === "Draw") return 0;
+    if (after.winner) return -2;
+
+    const opponent = after.currentTurn;
+    for (const reply of this.candidateMoves(after)) {
+      for (const replyPiece of legalPieces(after, opponent)) {
+        if (playMove(after, opponent, reply, replyPiece).winner === opponent) {
+          return -1;
+        }
+      }
+    }
+
+    return 0;
+  }
+
+  /**
+   * Legal moves worth looking at: all of them on small boards, otherwise
+   * those touching an existing piece (or the center of an empty board).
+   */
+  private candidateMoves(game: Game): number[] {
+    const moves = legalMoves(game);
+    if (moves.length <= SMALL_BOARD_SQUARES) return moves;
+
+    const { width, height } = game.boardSize;
+    const nearby = new Set<number>();
+    game.board.forEach((value, i) => {
+      if (!value) return;
+      const row = Math.floor(i / width);
+      const col = i % width;
+      for (let r = row - 1; r <= row + 1; r++) {
+        for (let c = col - 1; c <= col + 1; c++) {
+          if (r >= 0 && r < height && c >= 0 && c < width) {
+            nearby.add(r * width + c);
+          }
+        }
+      }
+    });
+
+    if (nearby.size === 0) {
+      return [Math.floor(height / 2) * width + Math.floor(width / 2)];
+    }
+    return moves.filter((position) => nearby.has(position));
+  }
+}
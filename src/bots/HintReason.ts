@@ -0,0 +1,60 @@
+import { Game, SymbolType } from "../types";
+import { legalMoves, playMove } from "@/lib/GameEngine";
+import { nextTurn } from "@/lib/GameRules";
+import { sideName } from "@/variants";
+
+/**
+ * Names the direction of a line on a board `width` squares wide.
+ */
+function describeLine(line: number[], width: number): string {
+  const [a, b] = line;
+  if (Math.floor(a / width) === Math.floor(b / width)) return "row";
+  if (a % width === b % width) return "column";
+  return "diagonal";
+}
+
+/**
+ * Explains in a few words why a move is worth playing, for hints shown to
+ * human players. Checks, in order, whether the move wins, stops the
+ * opponent winning, or sets up wins for next turn.
+ *
+ * @param {Game} game - The game before the move
+ * @param {number} position - The suggested square
+ * @param {SymbolType} piece - The piece to place there
+ * @returns {string} A short reason, e.g. "Block X's column"
+ */
+export function explainMove(
+  game: Game,
+  position: number,
+  piece: SymbolType
+): string {
+  const symbol = game.currentTurn;
+  const opponent = nextTurn(symbol);
+  const { width } = game.boardSize;
+  const lines = !game.ultimate;
+
+  const after = playMove(game, symbol, position, piece);
+  if (after.winner === symbol) {
+    return lines && after.winningLine
+      ? `Complete your ${describeLine(after.winningLine, width)} to win`
+      : "Win the game";
+  }
+
+  const blocked = playMove(game, opponent, position);
+  if (blocked.winner === opponent) {
+    const name = sideName(game.variant, opponent);
+    return lines && blocked.winningLine
+      ? `Block ${name}'s ${describeLine(blocked.winningLine, width)}`
+      : `Stop ${name} winning here`;
+  }
+
+  if (!after.winner) {
+    const threats = legalMoves(after).filter(
+      (next) => playMove(after, symbol, next).winner === symbol
+    ).length;
+    if (threats > 1) return "Create a fork: two ways to win next turn";
+    if (threats === 1) return "Threaten to win next turn";
+  }
+
+  return "Strongest square available";
+}
@@ -0,0 +1,27 @@
+/**
+ * Largest board, in squares, whose moves are cached. Positions on larger
+ * boards rarely come up twice, so caching them only costs storage.
+ */
+export const MOVE_CACHE_MAX_SQUARES = 16;
+
+/** Most positions kept; the least recently used are dropped first */
+export const MOVE_CACHE_SIZE = 10_000;
+
+/**
+ * Storage for moves a bot has already chosen, so a position seen before,
+ * in any game, gets the same answer without asking the model again.
+ */
+export interface MoveCache {
+  /**
+   * Looks up the move stored for a position
+   * @param key - Identifies the position and who is choosing the move
+   * @returns Promise resolving to the stored square, or null if none
+   */
+  get(key: string): Promise<number | null>;
+  /**
+   * Stores the move chosen for a position
+   * @param key - Identifies the position and who chose the move
+   * @param position - The square chosen
+   */
+  set(key: string, position: number): Promise<void>;
+}
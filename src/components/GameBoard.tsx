@@ -1,48 +1,201 @@
 import { X, Circle } from "lucide-react";
-import { Board, SymbolType } from "@/types";
+import { Board, SymbolType, UltimateState } from "@/types";
+import { SUB_BOARD_SQUARES, subBoards } from "@/lib/UltimateRules";
 
 interface GameBoardProps {
   board: Board;
+  /** Number of columns; the board is laid out row by row */
+  width: number;
   onSquareClick: (index: number) => void;
+  /** Squares of the line that decided the game, or sub-boards when ultimate */
   winningLine?: number[];
+  /** Square suggested by a hint, if the player asked for one */
+  hintSquare?: number;
   disabled: boolean;
   myTurn: boolean;
+  /** Meta-board state; when present the board is drawn as nine sub-boards */
+  ultimate?: UltimateState;
 }
 
 interface SquareProps {
   value: SymbolType | null;
   onClick: () => void;
   isHighlight: boolean;
+  isHint: boolean;
   disabled: boolean;
+  scale: SquareScale;
+}
+
+/**
+ * Square and icon sizes, shrinking as the board gets wider so that
+ * larger boards still fit the game card.
+ */
+const SQUARE_SCALES = {
+  large: {
+    gap: "gap-3",
+    square: "h-24 w-24 sm:h-32 sm:w-32 rounded-xl",
+    x: "w-12 h-12",
+    o: "w-10 h-10",
+  },
+  medium: {
+    gap: "gap-2",
+    square: "h-14 w-14 sm:h-16 sm:w-16 rounded-lg",
+    x: "w-8 h-8",
+    o: "w-7 h-7",
+  },
+  compact: {
+    gap: "gap-1",
+    square: "h-8 w-8 sm:h-10 sm:w-10 rounded-md",
+    x: "w-5 h-5",
+    o: "w-4 h-4",
+  },
+  small: {
+    gap: "gap-0.5",
+    square: "h-5 w-5 sm:h-6 sm:w-6 rounded-sm",
+    x: "w-4 h-4",
+    o: "w-3 h-3",
+  },
+};
+
+type SquareScale = (typeof SQUARE_SCALES)[keyof typeof SQUARE_SCALES];
+
+function scaleForWidth(width: number): SquareScale {
+  if (width <= 3) return SQUARE_SCALES.large;
+  if (width <= 6) return SQUARE_SCALES.medium;
+  return SQUARE_SCALES.small;
 }
 
 export function GameBoard({
   board,
+  width,
   onSquareClick,
   winningLine,
+  hintSquare,
   disabled,
   myTurn,
+  ultimate,
 }: GameBoardProps) {
+  if (ultimate) {
+    return (
+      <UltimateGameBoard
+        board={board}
+        ultimate={ultimate}
+        onSquareClick={onSquareClick}
+        winningLine={winningLine}
+        hintSquare={hintSquare}
+        disabled={disabled || !myTurn}
+      />
+    );
+  }
+
+  const scale = scaleForWidth(width);
+
   return (
-    <div className="grid grid-cols-3 gap-3 mx-auto max-w-fit">
+    <div
+      className={`grid ${scale.gap} mx-auto max-w-fit`}
+      style={{ gridTemplateColumns: `repeat(${width}, minmax(0, 1fr))` }}
+    >
       {board.map((value, i) => (
         <Square
           key={i}
           value={value}
           onClick={() => onSquareClick(i)}
           isHighlight={winningLine?.includes(i) ?? false}
+          isHint={hintSquare === i}
           disabled={disabled || !myTurn || value !== null}
+          scale={scale}
         />
       ))}
     </div>
   );
 }
 
+interface UltimateGameBoardProps {
+  board: Board;
+  ultimate: UltimateState;
+  onSquareClick: (index: number) => void;
+  winningLine?: number[];
+  hintSquare?: number;
+  disabled: boolean;
+}
+
+/**
+ * Draws an ultimate board as a 3x3 grid of classic sub-boards. Sub-boards
+ * that may be played in are outlined; decided ones are dimmed and show
+ * their result, and those on the winning line are highlighted.
+ */
+function UltimateGameBoard({
+  board,
+  ultimate,
+  onSquareClick,
+  winningLine,
+  hintSquare,
+  disabled,
+}: UltimateGameBoardProps) {
+  const scale = SQUARE_SCALES.compact;
+
+  return (
+    <div className="grid grid-cols-3 gap-2 mx-auto max-w-fit">
+      {subBoards(board).map((subBoard, b) => {
+        const result = ultimate.metaBoard[b];
+        const isPlayable =
+          result === null &&
+          (ultimate.activeBoard === null || ultimate.activeBoard === b);
+
+        return (
+          <div
+            key={b}
+            className={`relative grid grid-cols-3 ${scale.gap} p-1 rounded-lg border-2 ${
+              winningLine?.includes(b)
+                ? "border-green-300 bg-green-100"
+                : isPlayable && !disabled
+                  ? "border-indigo-300 bg-indigo-50/50"
+                  : "border-transparent"
+            }`}
+          >
+            {subBoard.map((value, n) => {
+              const position = b * SUB_BOARD_SQUARES + n;
+              return (
+                <Square
+                  key={n}
+                  value={value}
+                  onClick={() => onSquareClick(position)}
+                  isHighlight={false}
+                  isHint={hintSquare === position}
+                  disabled={disabled || !isPlayable || value !== null}
+                  scale={scale}
+                />
+              );
+            })}
+            {result && (
+              <div className="absolute inset-0 flex items-center justify-center rounded-lg bg-white/70">
+                {result === SymbolType.X && (
+                  <X className="w-16 h-16 text-blue-500" />
+                )}
+                {result === SymbolType.O && (
+                  <Circle className="w-14 h-14 text-rose-500" />
+                )}
+                {result === "Draw" && (
+                  <span className="text-xs font-bold uppercase text-muted-foreground">
+                    Draw
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 const Square: React.FC<SquareProps> = ({
   value,
   onClick,
   isHighlight,
+  isHint,
   disabled,
+  scale,
 }) => {
   const canInteract = !value /*&& !winnerInfo && isMyTurn*/ && !disabled;
 
@@ -50,7 +203,7 @@ const Square: React.FC<SquareProps> = ({
     <button
       onClick={onClick}
       disabled={!canInteract}
-      className={`h-24 w-24 sm:h-32 sm:w-32 flex items-center justify-center text-4xl font-bold transition-all duration-200 border border-slate-200 rounded-xl
+      className={`${scale.square} flex items-center justify-center text-4xl font-bold transition-all duration-200 border border-slate-200
           ${
             canInteract
               ? "hover:bg-indigo-50 hover:border-indigo-200 cursor-pointer"
@@ -59,15 +212,17 @@ const Square: React.FC<SquareProps> = ({
           ${
             isHighlight
               ? "bg-green-100 text-green-600 border-green-300"
-              : "bg-white text-slate-800"
+              : isHint
+                ? "bg-amber-100 border-amber-400 ring-2 ring-amber-300"
+                : "bg-white text-slate-800"
           }
           shadow-sm active:scale-95`}
     >
       {value === "X" && (
-        <X className="w-12 h-12 text-blue-500 animate-in zoom-in" />
+        <X className={`${scale.x} text-blue-500 animate-in zoom-in`} />
       )}
       {value === "O" && (
-        <Circle className="w-10 h-10 text-rose-500 animate-in zoom-in" />
+        <Circle className={`${scale.o} text-rose-500 animate-in zoom-in`} />
       )}
     </button>
   );
@@ -1,5 +1,6 @@
 import { GameState } from "@/agents/Game";
 import { Button } from "@/components/ui/button";
+import { getVariant } from "@/variants";
 
 interface GamesListProps {
   games: GameState[];
@@ -23,7 +24,12 @@ export function GamesList({ games, type, onJoin }: GamesListProps) {
           className="flex items-center justify-between px-4 py-3 bg-background rounded-md border hover:border-primary/50 transition-colors"
         >
           <div>
-            <p className="font-medium text-sm">{game.slug}</p>
+            <p className="font-medium text-sm">
+              {game.slug}
+              <span className="ml-2 text-xs font-medium text-muted-foreground bg-muted px-2 py-0.5 rounded">
+                {getVariant(game.variant).name}
+              </span>
+            </p>
             <p className="text-xs text-muted-foreground">
               {new Date(game.createdAt).toLocaleTimeString()}
             </p>
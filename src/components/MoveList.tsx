@@ -0,0 +1,44 @@
+import { Lightbulb } from "lucide-react";
+import { Move } from "@/types";
+
+interface MoveListProps {
+  moves: Move[];
+}
+export function MoveList({ moves }: MoveListProps) {
+  if (moves.length === 0) {
+    return (
+      <p className="text-muted-foreground text-center py-2 text-xs">
+        No moves yet
+      </p>
+    );
+  }
+
+  return (
+    <ol className="max-h-40 overflow-y-auto space-y-1 text-sm">
+      {moves.map((move) => (
+        <li
+          key={move.moveNumber}
+          className="flex items-center justify-between px-3 py-1.5 bg-background rounded-md border"
+        >
+          <span>
+            <span className="text-muted-foreground mr-2">{move.moveNumber}.</span>
+            <span className="font-medium">{move.player}</span>{" "}
+            {move.piece === move.player
+              ? "took square"
+              : `placed ${move.piece} on square`}{" "}
+            {move.position}
+            {move.hinted && (
+              <Lightbulb
+                className="inline w-3.5 h-3.5 ml-1.5 text-amber-500"
+                aria-label="Played after a hint"
+              />
+            )}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {new Date(move.createdAt).toLocaleTimeString()}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
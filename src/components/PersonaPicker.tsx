@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Persona, PersonaInput } from "@/types";
+import { PERSONA_LIMITS } from "@/lib/Personas";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+
+/** Radio value for playing a standard AI level instead of a persona */
+const NO_PERSONA = "none";
+
+interface PersonaPickerProps {
+  personas: Persona[];
+  /** Id of the picked persona, or null to play the chosen AI level */
+  value: string | null;
+  onChange: (personaId: string | null) => void;
+  /** Saves a new persona; resolves with it once it can be picked */
+  onCreate: (input: PersonaInput) => Promise<Persona>;
+}
+
+export function PersonaPicker({ personas, value, onChange, onCreate }: PersonaPickerProps) {
+  const [creating, setCreating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [input, setInput] = useState<PersonaInput>({
+    name: "",
+    persona: "",
+    strategy: "",
+  });
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const persona = await onCreate(input);
+      onChange(persona.id);
+      setInput({ name: "", persona: "", strategy: "" });
+      setCreating(false);
+    } catch (error) {
+      console.error("Failed to save persona:", error);
+      alert("Failed to save persona. Check that every field is filled in.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-medium block">Persona</Label>
+      <RadioGroup
+        value={value ?? NO_PERSONA}
+        onValueChange={(id) => onChange(id === NO_PERSONA ? null : id)}
+        className="flex flex-wrap gap-3"
+      >
+        <div className="flex items-center space-x-2 px-3 py-2.5 border rounded-md hover:bg-accent/50 transition-colors cursor-pointer">
+          <RadioGroupItem value={NO_PERSONA} id="persona-none" className="h-5 w-5" />
+          <Label htmlFor="persona-none" className="font-bold cursor-pointer text-sm">
+            None
+          </Label>
+        </div>
+        {personas.map((persona) => (
+          <div
+            key={persona.id}
+            title={persona.persona}
+            className="flex items-center space-x-2 px-3 py-2.5 border rounded-md hover:bg-accent/50 transition-colors cursor-pointer"
+          >
+            <RadioGroupItem
+              value={persona.id}
+              id={`persona-${persona.id}`}
+              className="h-5 w-5"
+            />
+            <Label
+              htmlFor={`persona-${persona.id}`}
+              className="font-bold cursor-pointer text-sm"
+            >
+              {persona.name}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+      <p className="text-xs text-muted-foreground">
+        Personas play classic rules in place of the AI level; other rules use
+        the standard bots.
+      </p>
+
+      {creating ? (
+        <div className="space-y-3 p-3 border rounded-md">
+          <div className="space-y-1.5">
+            <Label htmlFor="persona-name" className="text-xs font-medium block">
+              Name
+            </Label>
+            <Input
+              id="persona-name"
+              maxLength={PERSONA_LIMITS.name}
+              value={input.name}
+              onChange={(event) => setInput({ ...input, name: event.target.value })}
+              placeholder="Captain Corners"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="persona-persona" className="text-xs font-medium block">
+              Persona
+            </Label>
+            <Textarea
+              id="persona-persona"
+              maxLength={PERSONA_LIMITS.persona}
+              value={input.persona}
+              onChange={(event) => setInput({ ...input, persona: event.target.value })}
+              placeholder="A swashbuckling pirate who loves a bold move"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="persona-strategy" className="text-xs font-medium block">
+              Strategy
+            </Label>
+            <Textarea
+              id="persona-strategy"
+              maxLength={PERSONA_LIMITS.strategy}
+              value={input.strategy}
+              onChange={(event) => setInput({ ...input, strategy: event.target.value })}
+              placeholder="Grab the corners first and only take the center when forced"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setCreating(false)}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1"
+            >
+              {saving ? "Saving..." : "Save Persona"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setCreating(true)}
+          className="w-full"
+        >
+          New Persona
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,25 @@
 import { X, Circle } from "lucide-react";
-import { Player, SymbolType } from "@/types";
+import { Player, PlayerType, SymbolType } from "@/types";
 
 interface PlayerCardProps {
   player: Player;
   isActive: boolean;
   isCurrentPlayer?: boolean;
+  /** Variant-specific name for this side, e.g. "Order" */
+  role?: string;
+  /** Games won in the current series, when the game is part of one */
+  score?: number;
+  /** Milliseconds left on this side's clock, in timed games */
+  timeLeft?: number;
 }
-export function PlayerCard({ player, isActive, isCurrentPlayer }: PlayerCardProps) {
+
+/** Formats a clock reading as m:ss */
+function formatClock(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export function PlayerCard({ player, isActive, isCurrentPlayer, role, score, timeLeft }: PlayerCardProps) {
   return (
     <div
       className={`p-3 rounded-lg border transition-all ${
@@ -27,6 +40,7 @@ export function PlayerCard({ player, isActive, isCurrentPlayer }: PlayerCardProp
         </div>
         <span className="text-[10px] font-bold uppercase tracking-wide text-muted-foreground">
           {player.symbol}
+          {role && ` · ${role}`}
         </span>
         {isCurrentPlayer && (
           <span className="ml-auto text-[10px] font-bold uppercase tracking-wide text-primary">
@@ -34,8 +48,27 @@ export function PlayerCard({ player, isActive, isCurrentPlayer }: PlayerCardProp
           </span>
         )}
       </div>
-      <p className="font-medium text-sm truncate">{player.name}</p>
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium text-sm truncate">{player.name}</p>
+        {score !== undefined && (
+          <span className="text-sm font-bold tabular-nums">{score}</span>
+        )}
+      </div>
       {player.pending && <p className="text-xs text-muted-foreground">Waiting...</p>}
+      {player.type === PlayerType.AI && player.strength !== undefined && (
+        <p className="text-xs text-muted-foreground">
+          Strength {Math.round(player.strength * 100)}%
+        </p>
+      )}
+      {timeLeft !== undefined && (
+        <p
+          className={`text-xs font-mono tabular-nums ${
+            isActive && timeLeft < 10_000 ? "text-destructive font-bold" : "text-muted-foreground"
+          }`}
+        >
+          {formatClock(timeLeft)}
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,16 @@
+import { AILevel } from "@/types";
+
+/** Longest an AI player at each level may think about a move before it
+ * plays its fallback move instead, in milliseconds. Covers every attempt
+ * the bot makes at the move. */
+export const AI_MOVE_BUDGET: Record<AILevel, number> = {
+  [AILevel.BEGINNER]: 2_000,
+  [AILevel.INTERMEDIATE]: 2_000,
+  [AILevel.EXPERT]: 15_000,
+  [AILevel.PERFECT]: 20_000,
+  [AILevel.ADAPTIVE]: 20_000,
+};
+
+/** Time kept back from an AI player's clock in timed games, so a fallback
+ * move still lands before the deadline, in milliseconds */
+export const AI_CLOCK_MARGIN = 500;
@@ -0,0 +1,32 @@
+/** Strength of adaptive AI against a player with no results yet */
+export const DEFAULT_STRENGTH = 0.5;
+
+/** Weakest and strongest adaptive AI gets */
+export const MIN_STRENGTH = 0.1;
+export const MAX_STRENGTH = 1;
+
+/** How far a single win or loss moves the strength */
+export const STRENGTH_STEP = 0.15;
+
+/** Number of a player's most recent games against the AI that count */
+export const ADAPTIVE_HISTORY = 10;
+
+/**
+ * Works out how strongly adaptive AI should play against a player. Each
+ * win against the AI makes it stronger and each loss weaker; draws leave
+ * it be. Over time the player wins about as often as they lose.
+ *
+ * @param {number[]} scores - The player's recent scores against the AI,
+ *                            oldest first: 1 for a win, 0.5 for a draw, 0
+ *                            for a loss
+ * @returns {number} Share of best moves to play, from MIN_STRENGTH to
+ *                   MAX_STRENGTH
+ */
+export function adaptiveStrength(scores: number[]): number {
+  let strength = DEFAULT_STRENGTH;
+  for (const score of scores) {
+    strength += STRENGTH_STEP * (score - 0.5) * 2;
+    strength = Math.min(MAX_STRENGTH, Math.max(MIN_STRENGTH, strength));
+  }
+  return strength;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  expectedScore,
+  INITIAL_RATING,
+  K_FACTOR,
+  MAX_ARENA_GAMES,
+  ratingChange,
+  validateArenaGames,
+} from "./Arena";
+
+describe("expectedScore", () => {
+  it("is even between equally rated players", () => {
+    expect(expectedScore(INITIAL_RATING, INITIAL_RATING)).toBe(0.5);
+  });
+
+  it("gives a 400 point favourite ten to one odds", () => {
+    expect(expectedScore(1900, 1500)).toBeCloseTo(10 / 11);
+    expect(expectedScore(1500, 1900)).toBeCloseTo(1 / 11);
+  });
+
+  it("adds up to 1 across both players", () => {
+    expect(expectedScore(1620, 1480) + expectedScore(1480, 1620)).toBeCloseTo(1);
+  });
+});
+
+describe("ratingChange", () => {
+  it("moves equal ratings by half the K factor", () => {
+    expect(ratingChange(1500, 1500, 1)).toBe(K_FACTOR / 2);
+    expect(ratingChange(1500, 1500, 0)).toBe(-K_FACTOR / 2);
+    expect(ratingChange(1500, 1500, 0.5)).toBe(0);
+  });
+
+  it("rewards an upset more than an expected win", () => {
+    expect(ratingChange(1400, 1600, 1)).toBeGreaterThan(
+      ratingChange(1600, 1400, 1)
+    );
+  });
+
+  it("moves the opponent by the same amount the other way", () => {
+    const gain = ratingChange(1550, 1450, 1);
+    const loss = ratingChange(1450, 1550, 0);
+    expect(gain + loss).toBeCloseTo(0);
+  });
+
+  it("draws a higher rated player down", () => {
+    expect(ratingChange(1700, 1500, 0.5)).toBeLessThan(0);
+  });
+});
+
+describe("validateArenaGames", () => {
+  it("accepts 1 to MAX_ARENA_GAMES games", () => {
+    expect(() => validateArenaGames(1)).not.toThrow();
+    expect(() => validateArenaGames(MAX_ARENA_GAMES)).not.toThrow();
+  });
+
+  it("rejects empty, fractional and overlong matches", () => {
+    for (const games of [0, 2.5, MAX_ARENA_GAMES + 1, NaN]) {
+      expect(() => validateArenaGames(games)).toThrow();
+    }
+  });
+});
@@ -0,0 +1,49 @@
+/** Rating every AI level starts the arena with */
+export const INITIAL_RATING = 1500;
+
+/** Most a single game can move a rating */
+export const K_FACTOR = 32;
+
+/** Most games accepted for one arena match */
+export const MAX_ARENA_GAMES = 100;
+
+/**
+ * Checks that an arena match is a length we will run.
+ *
+ * @param {number} games - The requested number of games
+ * @throws {Error} If the count is not between 1 and MAX_ARENA_GAMES
+ */
+export function validateArenaGames(games: number): void {
+  if (!Number.isInteger(games) || games < 1 || games > MAX_ARENA_GAMES) {
+    throw new Error(`Arena matches must be 1 to ${MAX_ARENA_GAMES} games`);
+  }
+}
+
+/**
+ * Score a player is expected to take from a game, between 0 and 1.
+ *
+ * @param {number} rating - The player's rating
+ * @param {number} opponent - The opponent's rating
+ * @returns {number} Expected score; 0.5 between equally rated players
+ */
+export function expectedScore(rating: number, opponent: number): number {
+  return 1 / (1 + 10 ** ((opponent - rating) / 400));
+}
+
+/**
+ * How far a game moves a player's rating. The opponent's rating moves by
+ * the same amount the other way.
+ *
+ * @param {number} rating - The player's rating
+ * @param {number} opponent - The opponent's rating
+ * @param {number} score - The player's score: 1 for a win, 0.5 for a draw,
+ *                         0 for a loss
+ * @returns {number} Points to add to the player's rating
+ */
+export function ratingChange(
+  rating: number,
+  opponent: number,
+  score: number
+): number {
+  return K_FACTOR * (score - expectedScore(rating, opponent));
+}
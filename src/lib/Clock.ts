@@ -0,0 +1,133 @@
+import { Clock, SymbolType, TimeControl } from "@/types";
+
+/** Longest limit accepted for either time control, in seconds */
+export const MAX_TIME_LIMIT = 60 * 60;
+
+/**
+ * Time controls offered when creating a game.
+ */
+export const TIME_CONTROL_PRESETS: {
+  id: string;
+  label: string;
+  timeControl?: TimeControl;
+}[] = [
+  { id: "untimed", label: "Untimed" },
+  { id: "per-move", label: "15s per move", timeControl: { perMove: 15 } },
+  { id: "blitz", label: "1 min per side", timeControl: { perGame: 60 } },
+  { id: "rapid", label: "5 min per side", timeControl: { perGame: 5 * 60 } },
+];
+
+/**
+ * Checks that a time control describes a playable game.
+ *
+ * @param {TimeControl} timeControl - The requested time limits
+ * @throws {Error} If no limit is set or a limit is out of range
+ */
+export function validateTimeControl(timeControl: TimeControl): void {
+  const limits = [timeControl.perMove, timeControl.perGame].filter(
+    (limit) => limit !== undefined
+  );
+  if (limits.length === 0) {
+    throw new Error("Time control must set a per-move or per-game limit");
+  }
+
+  for (const limit of limits) {
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TIME_LIMIT) {
+      throw new Error(
+        `Time limits must be between 1 and ${MAX_TIME_LIMIT} seconds`
+      );
+    }
+  }
+}
+
+/**
+ * Creates a stopped clock for a new game.
+ *
+ * @param {TimeControl} timeControl - The game's time limits
+ * @returns {Clock} A clock with each side's full allowance
+ */
+export function createClock(timeControl: TimeControl): Clock {
+  const perGame = timeControl.perGame && timeControl.perGame * 1000;
+  return {
+    timeControl,
+    remaining: perGame ? { X: perGame, O: perGame } : undefined,
+  };
+}
+
+/**
+ * Most time a side may take over its next move: the per-move limit or
+ * what is left of its game clock, whichever is less.
+ *
+ * @param {Clock} clock - The game clock
+ * @param {SymbolType} symbol - The side about to move
+ * @returns {number} Milliseconds available for the move
+ */
+function allowance(clock: Clock, symbol: SymbolType): number {
+  const perMove = clock.timeControl.perMove;
+  return Math.min(
+    perMove ? perMove * 1000 : Infinity,
+    clock.remaining?.[symbol] ?? Infinity
+  );
+}
+
+/**
+ * Starts the clock for the side to move.
+ *
+ * @param {Clock} clock - The stopped game clock
+ * @param {SymbolType} symbol - The side to move
+ * @param {Date} now - When the turn starts
+ * @returns {Clock} The running clock, with the turn's deadline set
+ */
+export function startTurn(clock: Clock, symbol: SymbolType, now: Date): Clock {
+  return {
+    ...clock,
+    turnStartedAt: now.toISOString(),
+    deadline: new Date(now.getTime() + allowance(clock, symbol)).toISOString(),
+  };
+}
+
+/**
+ * Stops the clock at the end of a turn, charging the time taken to the
+ * side that moved.
+ *
+ * @param {Clock} clock - The running game clock
+ * @param {SymbolType} symbol - The side whose turn is ending
+ * @param {Date} now - When the turn ended
+ * @returns {Clock} The stopped clock
+ */
+export function endTurn(clock: Clock, symbol: SymbolType, now: Date): Clock {
+  const { turnStartedAt, deadline, ...stopped } = clock;
+  if (!turnStartedAt || !stopped.remaining) return stopped;
+
+  const elapsed = now.getTime() - new Date(turnStartedAt).getTime();
+  return {
+    ...stopped,
+    remaining: {
+      ...stopped.remaining,
+      [symbol]: Math.max(0, stopped.remaining[symbol] - elapsed),
+    },
+  };
+}
+
+/**
+ * Time a side has left, for display. The side to move counts down towards
+ * its deadline; the other side shows what it will have when its turn
+ * starts.
+ *
+ * @param {Clock} clock - The game clock
+ * @param {SymbolType} symbol - The side to report on
+ * @param {SymbolType} currentTurn - The side to move
+ * @param {number} now - Current time in milliseconds since the epoch
+ * @returns {number} Milliseconds left
+ */
+export function timeLeft(
+  clock: Clock,
+  symbol: SymbolType,
+  currentTurn: SymbolType,
+  now: number
+): number {
+  if (symbol === currentTurn && clock.deadline) {
+    return Math.max(0, new Date(clock.deadline).getTime() - now);
+  }
+  return allowance(clock, symbol);
+}
@@ -5,10 +5,14 @@ import { LobbyAgent, LobbyState } from "@/agents/Lobby";
 import { GameAgent, GameState } from "@/agents/Game";
 import {
   AILevel,
-  Board,
+  ArenaMatch,
+  ArenaStanding,
+  BotFallbackStats,
   GameConfig,
-  Players,
-  PlayerType,
+  Hint,
+  Move,
+  Persona,
+  PersonaInput,
   SymbolType,
 } from "@/types";
 
@@ -32,8 +36,6 @@ export const getLobbyState = createServerFn().handler(
       "lobby"
     );
 
-    console.log("getting lobby state");
-
     const lobbyState = await lobby.state;
 
     return {
@@ -45,15 +47,23 @@ export const getLobbyState = createServerFn().handler(
 
 /**
  * Creates a new game with the specified configuration.
- * Randomly assigns X or O to the creator. If opponent is AI, sets up AI player immediately.
+ * Randomly assigns X or O to the creator. If opponent is AI, sets up AI player
+ * immediately, and the AI opens the game in the background if it holds X.
  *
  * @param {GameConfig} data - Game configuration object:
  *   - opponentType: "human" | "ai" - Type of opponent
- *   - aiLevel?: AILevel - Required if opponentType is "ai" (BEGINNER | INTERMEDIATE | EXPERT)
+ *   - aiLevel?: AILevel - Required if opponentType is "ai" (BEGINNER | INTERMEDIATE | EXPERT | PERFECT | ADAPTIVE)
+ *   - variant?: Variant - Rule variant (defaults to classic)
+ *   - boardSize?: BoardSize - Board width/height and win length (defaults to classic 3x3)
+ *   - bestOf?: number - Games in the match series (1, 3 or 5; defaults to 1)
+ *   - timeControl?: TimeControl - Per-move and/or per-game time limits in seconds
+ *   - playerId?: string - Identifies the creator across games, for adaptive AI
+ *   - personaId?: string - Custom AI opponent to play, in place of aiLevel
  *
- * @returns {Promise<{slug: string, creatorSymbol: SymbolType}>} Object containing:
+ * @returns {Promise<{slug: string, creatorSymbol: SymbolType, seatToken: string}>} Object containing:
  *   - slug: Unique game identifier
  *   - creatorSymbol: Symbol assigned to the game creator (X or O)
+ *   - seatToken: Secret token the creator must send with each move
  *   - waitingForPlayer: boolean - Whether the game is waiting for a second player
  */
 export const createGame = createServerFn({ method: "POST" })
@@ -64,13 +74,14 @@ export const createGame = createServerFn({ method: "POST" })
     }): Promise<{
       slug: string;
       creatorSymbol: SymbolType;
+      seatToken: string;
       waitingForPlayer: boolean;
     }> => {
       const lobby = await getAgentByName<Env, LobbyAgent>(
         env.LobbyAgent,
         "lobby"
       );
-      const slug = await lobby.createGame(data.opponentType);
+      const slug = await lobby.createGame(data);
 
       const game = await getAgentByName<Env, GameAgent>(env.GameAgent, slug);
 
@@ -79,63 +90,72 @@ export const createGame = createServerFn({ method: "POST" })
       const opponentSymbol =
         creatorSymbol === SymbolType.X ? SymbolType.O : SymbolType.X;
 
+      // Claimed first, so adaptive AI can look up the creator's record
+      const seatToken = await game.claimSeat(creatorSymbol, data.playerId);
+
       // Configure based on opponent type
       if (data.opponentType === "ai") {
-        // Set AI opponent immediately
-        const currentState = await game.state;
-        await game.setState({
-          ...currentState,
-          game: {
-            ...currentState.game!,
-            players: {
-              [creatorSymbol]: {
-                ...currentState.game!.players[creatorSymbol],
-                pending: false,
-              },
-              [opponentSymbol]: {
-                name: `AI (${data.aiLevel})`,
-                symbol: opponentSymbol,
-                type: PlayerType.AI,
-                level: data.aiLevel!,
-                pending: false,
-              },
-            } as Players,
-          },
-          waitingForPlayers: false,
-          inProgress: true,
-        });
-      } else {
-        const currentState = await game.state;
-        await game.setState({
-          ...currentState,
-          game: {
-            ...currentState.game!,
-            players: {
-              [creatorSymbol]: {
-                ...currentState.game!.players[creatorSymbol],
-                pending: false,
-              },
-              [opponentSymbol]: {
-                name: "pending",
-                symbol: opponentSymbol,
-                type: PlayerType.HUMAN,
-                pending: true,
-              },
-            } as Players,
-          },
-          waitingForPlayers: false,
-          inProgress: true,
-        });
+        // Seat the AI immediately; it opens the game if it drew X. Custom
+        // AI opponents play through the expert model
+        const persona = data.personaId
+          ? await lobby.persona(data.personaId)
+          : null;
+        await game.seatAI(
+          opponentSymbol,
+          persona ? AILevel.EXPERT : data.aiLevel!,
+          persona ?? undefined
+        );
       }
 
       return {
         slug,
         creatorSymbol,
+        seatToken,
         waitingForPlayer: data.opponentType === "human",
       };
     }
   );
 
+/**
+ * Lists the custom AI opponents players have written, to pick from in
+ * the lobby.
+ *
+ * @returns {Promise<Persona[]>} The most recent opponents, newest first
+ *
+ * Input: None (no parameters required)
+ */
+export const getPersonas = createServerFn().handler(
+  async (): Promise<Persona[]> => {
+    const lobby = await getAgentByName<Env, LobbyAgent>(
+      env.LobbyAgent,
+      "lobby"
+    );
+    return await lobby.listPersonas();
+  }
+);
+
+/**
+ * Saves a custom AI opponent that anyone can then pick in the lobby.
+ *
+ * @param {PersonaInput} data - Request payload:
+ *   - name: string - Name the opponent plays under
+ *   - persona: string - Who the opponent is
+ *   - strategy: string - How the opponent should play
+ *
+ * @returns {Promise<Persona>} The saved opponent
+ *
+ * @throws {Error} If a part is missing or over its length limit
+ */
+export const createPersona = createServerFn({ method: "POST" })
+  .inputValidator((data: PersonaInput) => data)
+  .handler(async ({ data }): Promise<Persona> => {
+    const lobby = await getAgentByName<Env, LobbyAgent>(
+      env.LobbyAgent,
+      "lobby"
+    );
+    return await lobby.createPersona(data);
+  });
+
 // ============================================================================
 // GAME OPERATIONS
 // ============================================================================
@@ -161,62 +181,163 @@ export const getGameState = createServerFn()
   });
 
 /**
- * Makes a move on the board for the specified player.
- * If the opponent is AI and the game continues, automatically triggers AI's move.
+ * Retrieves the ordered move history of a specific game.
+ *
+ * @param {Object} data - Request payload:
+ *   - slug: string - Unique game identifier
+ *
+ * @returns {Promise<Move[]>} Every move made so far, oldest first, each with:
+ *   - moveNumber: 1-based position of the move in the game
+ *   - player: Symbol that made the move (X or O)
+ *   - piece: Symbol that was placed (differs from player only in wild-style variants)
+ *   - position: Board position that was taken
+ *   - createdAt: When the move was made
+ *   - hinted: Whether the player asked for a hint before making it
+ */
+export const getMoveHistory = createServerFn()
+  .inputValidator((data: { slug: string }) => data)
+  .handler(async ({ data }): Promise<Move[]> => {
+    const game = await getAgentByName<Env, GameAgent>(env.GameAgent, data.slug);
+    return await game.getMoves();
+  });
+
+/**
+ * Makes a move on the board for the seat that owns the given token.
+ * The Game agent validates turn order and the square; if the opponent is AI
+ * and the game continues, the agent plays the AI's reply in the background
+ * and the response does not wait for it.
  *
  * @param {Object} data - Request payload:
  *   - slug: string - Unique game identifier
- *   - position: number - Board position (0-8) to place symbol
- *   - playerSymbol: SymbolType - Symbol of the player making the move (X or O)
+ *   - position: number - Board position to place symbol
+ *   - seatToken: string - Token issued to the player when they took their seat
+ *   - piece?: SymbolType - Piece to place, in variants where players choose X or O
  *
- * @returns {Promise<GameState>} Updated game state after move(s)
+ * @returns {Promise<GameState>} Updated game state after the player's move
  *
- * @throws {Error} If position is invalid or already occupied
+ * @throws {Error} If the token is unknown, it is not the player's turn,
+ *                 or the position is invalid or already occupied
  */
 export const makeMove = createServerFn({ method: "POST" })
   .inputValidator(
-    (data: { slug: string; position: number; playerSymbol: SymbolType }) => data
+    (data: {
+      slug: string;
+      position: number;
+      seatToken: string;
+      piece?: SymbolType;
+    }) => data
   )
   .handler(async ({ data }): Promise<GameState> => {
     const game = await getAgentByName<Env, GameAgent>(env.GameAgent, data.slug);
-    const state = await game.state;
 
-    if (!state.game) throw new Error("Game not found");
-    if (state.game.board[data.position] !== null)
-      throw new Error("Invalid move");
-
-    // Apply move
-    const newBoard = [...state.game.board];
-    newBoard[data.position] = data.playerSymbol;
-
-    const winner = calculateWinner(newBoard);
-
-    await game.setState({
-      ...state,
-      game: { ...state.game, board: newBoard, winner },
-      updatedAt: new Date().toISOString(),
-    });
-
-    // If AI opponent and not game over, make AI move
-    const opponentSymbol =
-      data.playerSymbol === SymbolType.X ? SymbolType.O : SymbolType.X;
-    const opponent = state.game.players[opponentSymbol];
-
-    if (opponent.type === PlayerType.AI && !winner) {
-      const aiMove = await game.makeAIMove(opponentSymbol);
-      const aiBoard = [...newBoard];
-      aiBoard[aiMove] = opponentSymbol;
-      const aiWinner = calculateWinner(aiBoard);
-
-      const updatedState = await game.state;
-      await game.setState({
-        ...updatedState,
-        game: { ...updatedState.game!, board: aiBoard, winner: aiWinner },
-        updatedAt: new Date().toISOString(),
-      });
-    }
+    return serializeGameState(
+      await game.makeMove(data.seatToken, data.position, data.piece)
+    );
+  });
 
-    return serializeGameState(await game.state);
+/**
+ * Asks for a suggested move for the seat that owns the given token.
+ * Each player gets a limited number of hints per game, and moves made
+ * after a hint are flagged in the move history.
+ *
+ * @param {Object} data - Request payload:
+ *   - slug: string - Unique game identifier
+ *   - seatToken: string - Token issued to the player when they took their seat
+ *
+ * @returns {Promise<Hint>} Object containing:
+ *   - position: Suggested board position
+ *   - piece: Piece to place there
+ *   - reason: Short explanation, e.g. "Block X's column"
+ *
+ * @throws {Error} If the token is unknown, it is not the player's turn or
+ *                 they have no hints left
+ */
+export const getHint = createServerFn({ method: "POST" })
+  .inputValidator((data: { slug: string; seatToken: string }) => data)
+  .handler(async ({ data }): Promise<Hint> => {
+    const game = await getAgentByName<Env, GameAgent>(env.GameAgent, data.slug);
+    return await game.getHint(data.seatToken);
+  });
+
+/**
+ * Tells the game that the player in the seat owning the given token still
+ * has it open. Players who stop sending heartbeats are marked as
+ * disconnected and, if they do not return in time, forfeit.
+ *
+ * @param {Object} data - Request payload:
+ *   - slug: string - Unique game identifier
+ *   - seatToken: string - Token issued to the player when they took their seat
+ *
+ * @throws {Error} If the token is unknown
+ */
+export const heartbeat = createServerFn({ method: "POST" })
+  .inputValidator((data: { slug: string; seatToken: string }) => data)
+  .handler(async ({ data }): Promise<void> => {
+    const game = await getAgentByName<Env, GameAgent>(env.GameAgent, data.slug);
+    await game.heartbeat(data.seatToken);
+  });
+
+/**
+ * Resigns the game for the seat that owns the given token. The opponent
+ * wins by resignation.
+ *
+ * @param {Object} data - Request payload:
+ *   - slug: string - Unique game identifier
+ *   - seatToken: string - Token issued to the player when they took their seat
+ *
+ * @returns {Promise<GameState>} Game state after resigning
+ *
+ * @throws {Error} If the token is unknown or the game is not in progress
+ */
+export const resign = createServerFn({ method: "POST" })
+  .inputValidator((data: { slug: string; seatToken: string }) => data)
+  .handler(async ({ data }): Promise<GameState> => {
+    const game = await getAgentByName<Env, GameAgent>(env.GameAgent, data.slug);
+    return serializeGameState(await game.resign(data.seatToken));
+  });
+
+/**
+ * Offers a draw to a human opponent on behalf of the seat that owns the
+ * given token. The offer lapses once either side moves.
+ *
+ * @param {Object} data - Request payload:
+ *   - slug: string - Unique game identifier
+ *   - seatToken: string - Token issued to the player when they took their seat
+ *
+ * @returns {Promise<GameState>} Game state with the offer recorded
+ *
+ * @throws {Error} If the token is unknown, the game is not in progress,
+ *                 the opponent is an AI or a draw is already on offer
+ */
+export const offerDraw = createServerFn({ method: "POST" })
+  .inputValidator((data: { slug: string; seatToken: string }) => data)
+  .handler(async ({ data }): Promise<GameState> => {
+    const game = await getAgentByName<Env, GameAgent>(env.GameAgent, data.slug);
+    return serializeGameState(await game.offerDraw(data.seatToken));
+  });
+
+/**
+ * Accepts or declines the opponent's draw offer.
+ *
+ * @param {Object} data - Request payload:
+ *   - slug: string - Unique game identifier
+ *   - seatToken: string - Token issued to the player when they took their seat
+ *   - accept: boolean - True to agree to the draw, false to play on
+ *
+ * @returns {Promise<GameState>} Game state after answering
+ *
+ * @throws {Error} If the token is unknown, the game is not in progress or
+ *                 the opponent has no draw on offer
+ */
+export const answerDrawOffer = createServerFn({ method: "POST" })
+  .inputValidator(
+    (data: { slug: string; seatToken: string; accept: boolean }) => data
+  )
+  .handler(async ({ data }): Promise<GameState> => {
+    const game = await getAgentByName<Env, GameAgent>(env.GameAgent, data.slug);
+    return serializeGameState(
+      await game.answerDrawOffer(data.seatToken, data.accept)
+    );
   });
 
 /**
@@ -226,9 +347,10 @@ export const makeMove = createServerFn({ method: "POST" })
  * @param {Object} data - Request payload:
  *   - slug: string - Unique game identifier
  *
- * @returns {Promise<{state: GameState, playerSymbol: SymbolType}>} Object containing:
+ * @returns {Promise<{state: GameState, playerSymbol: SymbolType, seatToken: string}>} Object containing:
  *   - state: Updated game state
  *   - playerSymbol: Symbol assigned to the joining player (X or O)
+ *   - seatToken: Secret token the joining player must send with each move
  *
  * @throws {Error} If game is already full or not waiting for players
  */
@@ -237,7 +359,11 @@ export const joinGame = createServerFn({ method: "POST" })
   .handler(
     async ({
       data,
-    }): Promise<{ state: GameState; playerSymbol: SymbolType }> => {
+    }): Promise<{
+      state: GameState;
+      playerSymbol: SymbolType;
+      seatToken: string;
+    }> => {
       const game = await getAgentByName<Env, GameAgent>(
         env.GameAgent,
         data.slug
@@ -251,38 +377,62 @@ export const joinGame = createServerFn({ method: "POST" })
         ? SymbolType.X
         : SymbolType.O;
 
-      await game.setState({
-        ...state,
-        game: {
-          ...state.game!,
-          players: {
-            ...state.game!.players,
-            [pendingSymbol]: {
-              ...state.game!.players[pendingSymbol],
-              pending: false,
-            },
-          } as Players,
-        },
-        waitingForPlayers: false,
-        inProgress: true,
-      });
+      // The game checks the seat is still free as it seats the player,
+      // and starts once both seats are filled
+      const seatToken = await game.claimSeat(pendingSymbol);
 
       return {
         state: serializeGameState(await game.state),
         playerSymbol: pendingSymbol,
+        seatToken,
       };
     }
   );
 
+/**
+ * Asks for a rematch of a finished game. Once both players have asked (or
+ * straight away against the AI), the rematch is created with symbols
+ * swapped and its slug is recorded in the finished game's state, where
+ * both players pick it up. If the AI holds X in the rematch, the rematch
+ * plays its opening move in the background.
+ *
+ * @param {Object} data - Request payload:
+ *   - slug: string - Unique identifier of the finished game
+ *   - seatToken: string - Token issued to the player when they took their seat
+ *
+ * @returns {Promise<GameState>} The finished game's state, including the
+ *   rematch agreement and, once agreed, the rematch slug
+ *
+ * @throws {Error} If the token is unknown or the game is not over
+ */
+export const requestRematch = createServerFn({ method: "POST" })
+  .inputValidator((data: { slug: string; seatToken: string }) => data)
+  .handler(async ({ data }): Promise<GameState> => {
+    const game = await getAgentByName<Env, GameAgent>(env.GameAgent, data.slug);
+
+    if (await game.requestRematch(data.seatToken)) {
+      const lobby = await getAgentByName<Env, LobbyAgent>(
+        env.LobbyAgent,
+        "lobby"
+      );
+      await lobby.createRematch(data.slug);
+    }
+
+    return serializeGameState(await game.state);
+  });
+
 /**
  * Switches a pending player slot to an AI opponent.
  * Used when a human opponent doesn't join in time.
  *
  * @param {Object} data - Request payload:
  *   - slug: string - Unique game identifier
- *   - aiLevel: AILevel - Difficulty level for AI (BEGINNER | INTERMEDIATE | EXPERT)
+ *   - aiLevel: AILevel - Difficulty level for AI (BEGINNER | INTERMEDIATE | EXPERT | PERFECT | ADAPTIVE)
  *
  * @returns {Promise<GameState>} Updated game state with AI opponent configured
+ *
+ * @throws {Error} If the game is no longer waiting for players or the
+ *                 pending seat has already been claimed
  */
 export const switchToAI = createServerFn({ method: "POST" })
   .inputValidator((data: { slug: string; aiLevel: AILevel }) => data)
@@ -290,68 +440,131 @@ export const switchToAI = createServerFn({ method: "POST" })
     const game = await getAgentByName<Env, GameAgent>(env.GameAgent, data.slug);
     const state = await game.state;
 
+    if (!state.waitingForPlayers) throw new Error("Game already started");
+
     // Find pending player
     const pendingSymbol = state.game!.players.X.pending
       ? SymbolType.X
       : SymbolType.O;
 
-    await game.setState({
-      ...state,
-      game: {
-        ...state.game!,
-        players: {
-          ...state.game!.players,
-          [pendingSymbol]: {
-            name: `AI (${data.aiLevel})`,
-            symbol: pendingSymbol,
-            type: PlayerType.AI,
-            level: data.aiLevel,
-            pending: false,
-          },
-        } as Players,
-      },
-      waitingForPlayers: false,
-      inProgress: true,
-    });
+    // The game refuses if an opponent has taken the seat since. The AI
+    // opens the game if it takes X
+    await game.seatAI(pendingSymbol, data.aiLevel);
 
     return serializeGameState(await game.state);
   });
 
 // ============================================================================
-// HELPER FUNCTIONS
+// ARENA OPERATIONS
 // ============================================================================
 
 /**
- * Calculates the winner of the game based on the current board state.
- * Checks all possible winning combinations (rows, columns, diagonals).
+ * Retrieves the Elo rating and record of every AI level that has played
+ * in the bot-vs-bot arena.
  *
- * @param {Board} board - Array of 9 positions representing the game board
+ * @returns {Promise<ArenaStanding[]>} Standings, highest rated first
  *
- * @returns {SymbolType | "Draw" | undefined}
- *   - SymbolType (X or O) if there's a winner
- *   - "Draw" if all positions are filled with no winner
- *   - undefined if game is still in progress
+ * Input: None (no parameters required)
  */
-function calculateWinner(board: Board): SymbolType | "Draw" | undefined {
-  const lines = [
-    [0, 1, 2],
-    [3, 4, 5],
-    [6, 7, 8], // rows
-    [0, 3, 6],
-    [1, 4, 7],
-    [2, 5, 8], // cols
-    [0, 4, 8],
-    [2, 4, 6], // diagonals
-  ];
-
-  for (const [a, b, c] of lines) {
-    if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-      return board[a]!;
-    }
+export const getArenaStandings = createServerFn().handler(
+  async (): Promise<ArenaStanding[]> => {
+    const lobby = await getAgentByName<Env, LobbyAgent>(
+      env.LobbyAgent,
+      "lobby"
+    );
+    return await lobby.arenaStandings();
+  }
+);
+
+/**
+ * Plays a match of bot-vs-bot games between two AI levels, which take
+ * turns playing X, and updates their Elo ratings. Admin only, as a match
+ * can make hundreds of Workers AI calls.
+ *
+ * @param {Object} data - Request payload:
+ *   - adminToken: string - Must match the ADMIN_TOKEN secret
+ *   - first: AILevel - Level playing X in the first game
+ *   - second: AILevel - Level it plays against
+ *   - games: number - Number of games (1 to MAX_ARENA_GAMES)
+ *
+ * @returns {Promise<ArenaMatch>} Object containing:
+ *   - firstWins/secondWins/draws: Results of the match
+ *   - standings: Every level's rating and record after the match
+ *
+ * @throws {Error} If the admin token is wrong, a level is unknown or the
+ *                 match is too long
+ */
+export const runArena = createServerFn({ method: "POST" })
+  .inputValidator(
+    (data: {
+      adminToken: string;
+      first: AILevel;
+      second: AILevel;
+      games: number;
+    }) => data
+  )
+  .handler(async ({ data }): Promise<ArenaMatch> => {
+    const { adminToken, ...match } = data;
+    requireAdmin(adminToken);
+
+    const lobby = await getAgentByName<Env, LobbyAgent>(
+      env.LobbyAgent,
+      "lobby"
+    );
+    return await lobby.runArenaMatch(match);
+  });
+
+/**
+ * Reports how often the bots at each AI level fell back to their heuristic
+ * move instead of the one they came up with, and why. Admin only.
+ *
+ * @param {Object} data - Request payload:
+ *   - adminToken: string - Must match the ADMIN_TOKEN secret
+ *
+ * @returns {Promise<BotFallbackStats[]>} Per level:
+ *   - moves: AI moves made at the level
+ *   - fallbacks: Count of fallbacks by reason (timeout, parse-failure,
+ *     illegal-square, error)
+ *
+ * @throws {Error} If the admin token is wrong
+ */
+export const getBotFallbackStats = createServerFn({ method: "POST" })
+  .inputValidator((data: { adminToken: string }) => data)
+  .handler(async ({ data }): Promise<BotFallbackStats[]> => {
+    requireAdmin(data.adminToken);
+
+    const lobby = await getAgentByName<Env, LobbyAgent>(
+      env.LobbyAgent,
+      "lobby"
+    );
+    return await lobby.botFallbackStats();
+  });
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Checks a token sent with an admin request against the ADMIN_TOKEN
+ * secret. Without the secret set, admin requests are always refused.
+ *
+ * @param {string} token - Token sent by the client
+ * @throws {Error} If the token is missing or does not match
+ */
+function requireAdmin(token: string): void {
+  const encoder = new TextEncoder();
+  const given = encoder.encode(token ?? "");
+  const expected = encoder.encode(env.ADMIN_TOKEN ?? "");
+
+  // Compare every byte, so the time taken gives nothing away
+  let difference = given.length ^ expected.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected[i] ^ (given[i] ?? 0);
   }
 
-  if (board.every(Boolean)) return "Draw";
-  return undefined;
+  if (expected.length === 0 || difference !== 0) {
+    throw new Error("Admin token required");
+  }
 }
 
 /**
@@ -365,10 +578,15 @@ function calculateWinner(board: Board): SymbolType | "Draw" | undefined {
 function serializeGameState(state: GameState): GameState {
   return {
     slug: state.slug,
+    variant: state.variant,
     waitingForPlayers: state.waitingForPlayers,
     inProgress: state.inProgress,
     createdAt: state.createdAt,
     updatedAt: state.updatedAt,
     game: state.game,
+    series: state.series,
+    rematch: state.rematch,
+    disconnected: state.disconnected,
+    hintsUsed: state.hintsUsed,
   };
 }
@@ -0,0 +1,116 @@
+import {
+  Game,
+  GameConfig,
+  Move,
+  ResultReason,
+  SymbolType,
+  Variant,
+} from "@/types";
+import { CLASSIC_BOARD_SIZE } from "@/lib/GameRules";
+import { GameBoardState, getVariant } from "@/variants";
+
+/**
+ * Creates the empty board for a newly configured game.
+ *
+ * @param {GameConfig} config - Variant and board size chosen when creating the game
+ * @returns {GameBoardState} Variant, board size, empty board and any
+ *                           variant-specific board state
+ * @throws {Error} If the variant is unknown or the board size is not playable
+ */
+export function createGameBoard(
+  config: Pick<GameConfig, "variant" | "boardSize">
+): GameBoardState {
+  const variant = getVariant(config.variant ?? Variant.CLASSIC);
+  return variant.createBoard(config.boardSize ?? CLASSIC_BOARD_SIZE);
+}
+
+/**
+ * Lists the positions the player to move may legally play.
+ *
+ * @param {Game} game - The current game
+ * @returns {number[]} Playable positions, empty once the game is over
+ */
+export function legalMoves(game: Game): number[] {
+  if (game.winner) return [];
+  return getVariant(game.variant).legalMoves(game);
+}
+
+/**
+ * Lists the pieces a side may place under the game's variant.
+ *
+ * @param {Game} game - The current game
+ * @param {SymbolType} symbol - The side to move
+ * @returns {SymbolType[]} Placeable pieces; just `symbol` in most variants
+ */
+export function legalPieces(game: Game, symbol: SymbolType): SymbolType[] {
+  return getVariant(game.variant).pieces(symbol);
+}
+
+/**
+ * Plays a move and returns the resulting game, with the winner and the
+ * reason for it recorded and the turn passed on as the variant dictates.
+ * Any pending draw offer lapses. Does not check whose turn it is.
+ *
+ * @param {Game} game - The current game
+ * @param {SymbolType} symbol - The side making the move
+ * @param {number} position - The position to play
+ * @param {SymbolType} piece - The piece to place (defaults to the mover's own symbol)
+ * @returns {Game} The game after the move
+ * @throws {Error} If the position or piece is not legal
+ */
+export function playMove(
+  game: Game,
+  symbol: SymbolType,
+  position: number,
+  piece: SymbolType = symbol
+): Game {
+  if (!legalMoves(game).includes(position)) {
+    throw new Error("Invalid move");
+  }
+  if (!legalPieces(game, symbol).includes(piece)) {
+    throw new Error(`${symbol} cannot place ${piece} in this variant`);
+  }
+
+  const next = getVariant(game.variant).applyMove(
+    game,
+    symbol,
+    position,
+    piece
+  );
+  return {
+    ...next,
+    resultReason: next.winner
+      ? next.winningLine
+        ? ResultReason.LINE
+        : ResultReason.BOARD_FULL
+      : undefined,
+    drawOffer: undefined,
+  };
+}
+
+/**
+ * Rebuilds a game as it stood after the first `step` moves of its history.
+ * Used to replay a game from its recorded move history.
+ *
+ * @param {Game} game - The game being replayed, for its players and board
+ * @param {Move[]} moves - The game's move history, oldest first
+ * @param {number} step - How many moves to apply (0 gives an empty board)
+ * @returns {Game} The game after `step` moves
+ */
+export function replayGame(game: Game, moves: Move[], step: number): Game {
+  let replayed: Game = {
+    ...game,
+    ...createGameBoard(game),
+    currentTurn: SymbolType.X,
+    winner: undefined,
+    winningLine: undefined,
+    resultReason: undefined,
+    drawOffer: undefined,
+  };
+
+  for (const move of moves.slice(0, step)) {
+    replayed = playMove(replayed, move.player, move.position, move.piece);
+  }
+
+  return replayed;
+}
@@ -0,0 +1,201 @@
+import { Board, BoardSize, SymbolType } from "@/types";
+
+/**
+ * Classic tic-tac-toe: a 3x3 board, three in a row wins.
+ */
+export const CLASSIC_BOARD_SIZE: BoardSize = {
+  width: 3,
+  height: 3,
+  winLength: 3,
+};
+
+/** Smallest and largest board edge accepted when creating a game */
+export const MIN_BOARD_EDGE = 3;
+export const MAX_BOARD_EDGE = 15;
+
+/**
+ * Board sizes offered when creating a game.
+ */
+export const BOARD_PRESETS: { id: string; label: string; size: BoardSize }[] = [
+  { id: "classic", label: "3×3 · 3 in a row", size: CLASSIC_BOARD_SIZE },
+  {
+    id: "five-by-five",
+    label: "5×5 · 4 in a row",
+    size: { width: 5, height: 5, winLength: 4 },
+  },
+  {
+    id: "gomoku",
+    label: "15×15 · 5 in a row",
+    size: { width: 15, height: 15, winLength: 5 },
+  },
+];
+
+/**
+ * Returns the symbol that plays after the given one.
+ *
+ * @param {SymbolType} symbol - The symbol that just moved
+ * @returns {SymbolType} The opposing symbol
+ */
+export function nextTurn(symbol: SymbolType): SymbolType {
+  return symbol === SymbolType.X ? SymbolType.O : SymbolType.X;
+}
+
+/**
+ * Whether a board size is classic 3x3 tic-tac-toe.
+ *
+ * @param {BoardSize} size - The board geometry
+ * @returns {boolean} True for a 3x3 board with three in a row to win
+ */
+export function isClassicBoard(size: BoardSize): boolean {
+  return (
+    size.width === CLASSIC_BOARD_SIZE.width &&
+    size.height === CLASSIC_BOARD_SIZE.height &&
+    size.winLength === CLASSIC_BOARD_SIZE.winLength
+  );
+}
+
+/**
+ * Checks that a board size describes a playable game.
+ *
+ * @param {BoardSize} size - The requested board geometry
+ * @throws {Error} If an edge is out of range or the win length cannot fit
+ */
+export function validateBoardSize(size: BoardSize): void {
+  const { width, height, winLength } = size;
+
+  for (const edge of [width, height]) {
+    if (
+      !Number.isInteger(edge) ||
+      edge < MIN_BOARD_EDGE ||
+      edge > MAX_BOARD_EDGE
+    ) {
+      throw new Error(
+        `Board edges must be between ${MIN_BOARD_EDGE} and ${MAX_BOARD_EDGE}`
+      );
+    }
+  }
+  if (
+    !Number.isInteger(winLength) ||
+    winLength < MIN_BOARD_EDGE ||
+    winLength > Math.max(width, height)
+  ) {
+    throw new Error("Win length must fit on the board");
+  }
+}
+
+/**
+ * Creates an empty board of the given size.
+ *
+ * @param {BoardSize} size - The board geometry
+ * @returns {Board} A board with every square empty
+ */
+export function createBoard(size: BoardSize): Board {
+  return new Array(size.width * size.height).fill(null);
+}
+
+/** Winning lines already worked out, keyed by board size */
+const linesCache = new Map<string, number[][]>();
+
+/**
+ * Lists every run of `winLength` squares on the board: horizontal,
+ * vertical and both diagonals. On a classic board this is the familiar
+ * 8 lines.
+ *
+ * @param {BoardSize} size - The board geometry
+ * @returns {number[][]} Each winning line as a list of square indices
+ */
+export function winningLines(size: BoardSize): number[][] {
+  const { width, height, winLength } = size;
+  const key = `${width}x${height}x${winLength}`;
+  const cached = linesCache.get(key);
+  if (cached) return cached;
+
+  const directions = [
+    [0, 1], // rows
+    [1, 0], // cols
+    [1, 1], // diagonals
+    [1, -1], // anti-diagonals
+  ];
+  const lines: number[][] = [];
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      for (const [dRow, dCol] of directions) {
+        const endRow = row + dRow * (winLength - 1);
+        const endCol = col + dCol * (winLength - 1);
+        if (endRow >= height || endCol < 0 || endCol >= width) continue;
+
+        const line: number[] = [];
+        for (let i = 0; i < winLength; i++) {
+          line.push((row + dRow * i) * width + (col + dCol * i));
+        }
+        lines.push(line);
+      }
+    }
+  }
+
+  linesCache.set(key, lines);
+  return lines;
+}
+
+/** Winning lines through each square, keyed by board size */
+const linesThroughCache = new Map<string, number[][][]>();
+
+/**
+ * Finds a completed line that runs through the given square. After a move,
+ * only lines through the square just played can have been completed, so
+ * this is much cheaper than checking the whole board on large boards.
+ *
+ * @param {Board} board - Array of squares representing the game board
+ * @param {BoardSize} size - The board geometry
+ * @param {number} position - The square to look through
+ * @returns {number[] | undefined} The squares of a completed line, if any
+ */
+export function findLineThrough(
+  board: Board,
+  size: BoardSize,
+  position: number
+): number[] | undefined {
+  const key = `${size.width}x${size.height}x${size.winLength}`;
+  let byPosition = linesThroughCache.get(key);
+  if (!byPosition) {
+    byPosition = Array.from({ length: size.width * size.height }, () => []);
+    for (const line of winningLines(size)) {
+      for (const i of line) byPosition[i].push(line);
+    }
+    linesThroughCache.set(key, byPosition);
+  }
+
+  const symbol = board[position];
+  if (!symbol) return undefined;
+
+  return byPosition[position].find((line) =>
+    line.every((i) => board[i] === symbol)
+  );
+}
+
+/**
+ * Calculates the winner of the game based on the current board state.
+ * Checks every possible winning line (rows, columns, diagonals).
+ *
+ * @param {Board} board - Array of squares representing the game board
+ * @param {BoardSize} size - The board geometry
+ *
+ * @returns {{ winner, line }} Object containing:
+ *   - winner: SymbolType (X or O) if there's a winner, "Draw" if all
+ *     positions are filled with no winner, undefined if still in progress
+ *   - line: The squares of the winning line, when there is one
+ */
+export function calculateWinner(
+  board: Board,
+  size: BoardSize
+): { winner: SymbolType | "Draw" | undefined; line?: number[] } {
+  const line = winningLines(size).find(([first, ...rest]) => {
+    const symbol = board[first];
+    return symbol && rest.every((i) => board[i] === symbol);
+  });
+  if (line) return { winner: board[line[0]]!, line };
+
+  if (board.every(Boolean)) return { winner: "Draw" };
+  return { winner: undefined };
+}
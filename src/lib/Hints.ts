@@ -0,0 +1,2 @@
+/** Hints each player may ask for in a single game */
+export const HINTS_PER_GAME = 3;
@@ -0,0 +1,38 @@
+import { PersonaInput } from "@/types";
+
+/** Longest each part of a custom AI opponent may be, in characters */
+export const PERSONA_LIMITS: Record<keyof PersonaInput, number> = {
+  name: 40,
+  persona: 500,
+  strategy: 1000,
+};
+
+/** Most custom AI opponents offered in the lobby, newest first */
+export const MAX_LISTED_PERSONAS = 50;
+
+/**
+ * Checks that a custom AI opponent has every part filled in and within
+ * its length limit.
+ *
+ * @param {PersonaInput} input - The name, persona and strategy as written
+ * @returns {PersonaInput} The same parts with surrounding whitespace trimmed
+ * @throws {Error} If a part is missing, empty or too long
+ */
+export function validatePersona(input: PersonaInput): PersonaInput {
+  const persona = {} as PersonaInput;
+
+  for (const field of Object.keys(PERSONA_LIMITS) as (keyof PersonaInput)[]) {
+    const value = input[field];
+    if (typeof value !== "string" || !value.trim()) {
+      throw new Error(`Persona ${field} is required`);
+    }
+    if (value.trim().length > PERSONA_LIMITS[field]) {
+      throw new Error(
+        `Persona ${field} must be at most ${PERSONA_LIMITS[field]} characters`
+      );
+    }
+    persona[field] = value.trim();
+  }
+
+  return persona;
+}
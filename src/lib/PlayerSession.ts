@@ -1,4 +1,24 @@
+import { SymbolType } from "@/types";
+
 const PLAYER_NAME_KEY = "tictactoe_player_name";
+const PLAYER_ID_KEY = "tictactoe_player_id";
+
+/**
+ * Returns the id that identifies this browser's player across games and
+ * visits, so the server can follow their results against the AI. It is
+ * created on first use and kept in local storage.
+ */
+export function getPlayerId(): string | undefined {
+  if (typeof window === "undefined") return undefined;
+
+  let id = localStorage.getItem(PLAYER_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(PLAYER_ID_KEY, id);
+  }
+  return id;
+}
+
 export function getPlayerName(): string {
   if (typeof window === "undefined") return generatePlayerName();
 
@@ -17,3 +37,27 @@ function generatePlayerName(): string {
   const num = Math.floor(Math.random() * 100);
   return `${adj}${noun}${num}`;
 }
+
+/**
+ * A player's claim on one side of a game: the symbol they play and the
+ * secret token the server issued for that seat.
+ */
+export type Seat = {
+  symbol: SymbolType;
+  token: string;
+};
+
+export function saveSeat(slug: string, seat: Seat): void {
+  sessionStorage.setItem(`game_${slug}_symbol`, seat.symbol);
+  sessionStorage.setItem(`game_${slug}_token`, seat.token);
+}
+
+export function getSeat(slug: string): Seat | null {
+  if (typeof window === "undefined") return null;
+
+  const symbol = sessionStorage.getItem(`game_${slug}_symbol`);
+  const token = sessionStorage.getItem(`game_${slug}_token`);
+  if (!symbol || !token) return null;
+
+  return { symbol: symbol as SymbolType, token };
+}
@@ -0,0 +1,12 @@
+/** How often an open game page reports that its player is still there, in milliseconds */
+export const HEARTBEAT_INTERVAL = 5_000;
+
+/** How long a seated player may go without a heartbeat before they are
+ * marked as disconnected, in milliseconds */
+export const DISCONNECT_AFTER = 15_000;
+
+/** How long a disconnected player has to come back before forfeiting, in milliseconds */
+export const RECONNECT_GRACE_PERIOD = 60_000;
+
+/** How often a game in progress checks on its players, in seconds */
+export const PRESENCE_CHECK_INTERVAL = 5;
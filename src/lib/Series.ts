@@ -0,0 +1,61 @@
+import { Game, Series, SymbolType } from "@/types";
+
+/** Match lengths offered when creating a game; 1 is a single game */
+export const SERIES_LENGTHS = [1, 3, 5];
+
+/**
+ * Checks that a match length is one we offer.
+ *
+ * @param {number} bestOf - The requested number of games
+ * @throws {Error} If the length is not one of SERIES_LENGTHS
+ */
+export function validateBestOf(bestOf: number): void {
+  if (!SERIES_LENGTHS.includes(bestOf)) {
+    throw new Error(`Series must be best of ${SERIES_LENGTHS.join(", ")}`);
+  }
+}
+
+/**
+ * Number of wins needed to take a best-of-N series. Drawn games don't
+ * count, so a series can run past N games.
+ *
+ * @param {number} bestOf - Number of games in the series
+ * @returns {number} Wins needed, e.g. 2 for best of 3
+ */
+export function winsNeeded(bestOf: number): number {
+  return Math.floor(bestOf / 2) + 1;
+}
+
+/**
+ * Series score including the result of this game once it is decided.
+ *
+ * @param {Series} series - The series as seen from this game
+ * @param {Game} game - The game being played
+ * @returns {Record<SymbolType, number>} Wins for the player holding each symbol
+ */
+export function seriesScore(
+  series: Series,
+  game: Game
+): Record<SymbolType, number> {
+  const score = { ...series.score };
+  if (game.winner && game.winner !== "Draw") score[game.winner]++;
+  return score;
+}
+
+/**
+ * Works out whether this game decided the series.
+ *
+ * @param {Series} series - The series as seen from this game
+ * @param {Game} game - The game being played
+ * @returns {SymbolType | undefined} The symbol whose player won the series, if any
+ */
+export function seriesWinner(
+  series: Series,
+  game: Game
+): SymbolType | undefined {
+  const score = seriesScore(series, game);
+  const needed = winsNeeded(series.bestOf);
+  if (score.X >= needed) return SymbolType.X;
+  if (score.O >= needed) return SymbolType.O;
+  return undefined;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { Board, SymbolType } from "@/types";
+import { canonicalForm, symmetries } from "./Symmetry";
+import { gameFromBoard } from "@/test/BotMatch";
+
+const size = { width: 3, height: 3, winLength: 3 };
+
+/** The board as seen through a symmetry */
+function transform(board: Board, perm: number[]): Board {
+  return perm.map((i) => board[i]);
+}
+
+describe("symmetries", () => {
+  it("lists eight distinct permutations of a square board, identity first", () => {
+    const perms = symmetries(3, 3);
+
+    expect(perms).toHaveLength(8);
+    expect(perms[0]).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(new Set(perms.map((perm) => perm.join(","))).size).toBe(8);
+    for (const perm of perms) {
+      expect([...perm].sort()).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+    }
+  });
+
+  it("lists four for other rectangles", () => {
+    expect(symmetries(4, 3)).toHaveLength(4);
+  });
+});
+
+describe("canonicalForm", () => {
+  const { board } = gameFromBoard("XO---X---", SymbolType.O);
+
+  it("gives every rotation and reflection of a position the same key", () => {
+    const { key } = canonicalForm(board, size);
+
+    for (const perm of symmetries(3, 3)) {
+      expect(canonicalForm(transform(board, perm), size).key).toBe(key);
+    }
+  });
+
+  it("maps a square on the canonical board back to the same square on every transform", () => {
+    const { key, perm } = canonicalForm(board, size);
+    // The canonical square standing for square 8 of the original
+    const canonicalMove = perm.indexOf(8);
+
+    for (const symmetry of symmetries(3, 3)) {
+      const transformed = transform(board, symmetry);
+      const canonical = canonicalForm(transformed, size);
+      const move = canonical.perm[canonicalMove];
+
+      expect(canonical.key).toBe(key);
+      // Square 8 of the original, seen through the same symmetry
+      expect(symmetry[move]).toBe(8);
+    }
+  });
+});
@@ -0,0 +1,72 @@
+import { Board, BoardSize } from "@/types";
+
+/** Symmetries already worked out, keyed by board dimensions */
+const symmetriesCache = new Map<string, number[][]>();
+
+/**
+ * Lists the rotations and reflections of a board as permutations of its
+ * squares: square i of the transformed board is square `perm[i]` of the
+ * original. Square boards have eight, the identity included; other
+ * rectangles have four.
+ *
+ * @param {number} width - Number of columns
+ * @param {number} height - Number of rows
+ * @returns {number[][]} One permutation per symmetry, the identity first
+ */
+export function symmetries(width: number, height: number): number[][] {
+  const key = `${width}x${height}`;
+  const cached = symmetriesCache.get(key);
+  if (cached) return cached;
+
+  const last = { row: height - 1, col: width - 1 };
+  const transforms: ((row: number, col: number) => [number, number])[] = [
+    (row, col) => [row, col],
+    (row, col) => [row, last.col - col], // mirror
+    (row, col) => [last.row - row, col], // flip
+    (row, col) => [last.row - row, last.col - col], // half turn
+  ];
+  if (width === height) {
+    transforms.push(
+      (row, col) => [col, row], // main diagonal
+      (row, col) => [col, last.col - row], // quarter turn
+      (row, col) => [last.col - col, row], // three-quarter turn
+      (row, col) => [last.col - col, last.col - row] // anti-diagonal
+    );
+  }
+
+  const perms = transforms.map((transform) =>
+    Array.from({ length: width * height }, (_, i) => {
+      const [row, col] = transform(Math.floor(i / width), i % width);
+      return row * width + col;
+    })
+  );
+
+  symmetriesCache.set(key, perms);
+  return perms;
+}
+
+/**
+ * Finds the canonical form of a position: of all the boards it can be
+ * rotated or reflected into, the one that sorts first. Positions that are
+ * the same up to symmetry share a canonical form.
+ *
+ * @param {Board} board - Array of squares representing the game board
+ * @param {BoardSize} size - The board geometry
+ * @returns {{ key, perm }} Object containing:
+ *   - key: The canonical board as a string, one character per square
+ *   - perm: The symmetry that produced it; square i of the canonical board
+ *     is square `perm[i]` of the given one
+ */
+export function canonicalForm(
+  board: Board,
+  size: BoardSize
+): { key: string; perm: number[] } {
+  let best: { key: string; perm: number[] } | undefined;
+
+  for (const perm of symmetries(size.width, size.height)) {
+    const key = perm.map((i) => board[i] ?? "-").join("");
+    if (!best || key < best.key) best = { key, perm };
+  }
+
+  return best!;
+}
@@ -0,0 +1,135 @@
+import { Board, SymbolType, UltimateState } from "@/types";
+import { CLASSIC_BOARD_SIZE, calculateWinner } from "@/lib/GameRules";
+
+/** Number of squares in each sub-board, and of sub-boards in the meta-board */
+export const SUB_BOARD_SQUARES = 9;
+
+/** Total number of squares on an ultimate board */
+export const ULTIMATE_SQUARES = SUB_BOARD_SQUARES * SUB_BOARD_SQUARES;
+
+/**
+ * Creates the meta-board state for a fresh ultimate game, where the first
+ * move may be played in any sub-board.
+ *
+ * @returns {UltimateState} Every sub-board undecided and no active sub-board
+ */
+export function createUltimateState(): UltimateState {
+  return {
+    metaBoard: new Array(SUB_BOARD_SQUARES).fill(null),
+    activeBoard: null,
+  };
+}
+
+/**
+ * Splits a flat ultimate board into its nine classic sub-boards.
+ *
+ * @param {Board} board - The 81-square ultimate board
+ * @returns {Board[]} Sub-boards 0-8, each with squares 0-8
+ */
+export function subBoards(board: Board): Board[] {
+  return Array.from({ length: SUB_BOARD_SQUARES }, (_, b) =>
+    board.slice(b * SUB_BOARD_SQUARES, (b + 1) * SUB_BOARD_SQUARES)
+  );
+}
+
+/**
+ * Lists the positions that may legally be played. Moves are restricted to
+ * the active sub-board, or to any undecided sub-board when there is none.
+ *
+ * @param {Board} board - The 81-square ultimate board
+ * @param {UltimateState} state - The current meta-board state
+ * @returns {number[]} Playable positions on the flat board
+ */
+export function legalUltimateMoves(
+  board: Board,
+  state: UltimateState
+): number[] {
+  const moves: number[] = [];
+
+  for (let b = 0; b < SUB_BOARD_SQUARES; b++) {
+    if (state.metaBoard[b] !== null) continue;
+    if (state.activeBoard !== null && state.activeBoard !== b) continue;
+
+    for (let n = 0; n < SUB_BOARD_SQUARES; n++) {
+      const position = b * SUB_BOARD_SQUARES + n;
+      if (board[position] === null) moves.push(position);
+    }
+  }
+
+  return moves;
+}
+
+/**
+ * Decides the meta-board: three sub-boards in a row wins, and the game is
+ * drawn once every sub-board is decided without such a line.
+ *
+ * @param {UltimateState["metaBoard"]} metaBoard - Result of each sub-board
+ * @returns {{ winner, line }} The overall result, if any, and the sub-boards
+ *                             of the winning line
+ */
+export function calculateUltimateWinner(
+  metaBoard: UltimateState["metaBoard"]
+): { winner: SymbolType | "Draw" | undefined; line?: number[] } {
+  // Drawn sub-boards count for nobody when looking for a line
+  const lineBoard = metaBoard.map((result) =>
+    result === "Draw" ? null : result
+  );
+  const { winner, line } = calculateWinner(lineBoard, CLASSIC_BOARD_SIZE);
+  if (line) return { winner, line };
+
+  if (metaBoard.every((result) => result !== null)) return { winner: "Draw" };
+  return { winner: undefined };
+}
+
+/**
+ * Places a symbol on an ultimate board and works out the consequences:
+ * the result of the sub-board played in, the overall winner, and which
+ * sub-board the opponent is sent to.
+ *
+ * @param {Board} board - The 81-square ultimate board
+ * @param {UltimateState} state - The current meta-board state
+ * @param {SymbolType} symbol - The symbol being played
+ * @param {number} position - The flat position to play
+ * @returns The updated board, meta-board state, overall winner and the
+ *          sub-boards of the winning line
+ * @throws {Error} If the position is not a legal move
+ */
+export function playUltimateMove(
+  board: Board,
+  state: UltimateState,
+  symbol: SymbolType,
+  position: number
+): {
+  board: Board;
+  ultimate: UltimateState;
+  winner: SymbolType | "Draw" | undefined;
+  winningLine?: number[];
+} {
+  if (!legalUltimateMoves(board, state).includes(position)) {
+    throw new Error("Invalid move");
+  }
+
+  const nextBoard = [...board];
+  nextBoard[position] = symbol;
+
+  const subBoard = Math.floor(position / SUB_BOARD_SQUARES);
+  const square = position % SUB_BOARD_SQUARES;
+
+  const metaBoard = [...state.metaBoard];
+  metaBoard[subBoard] =
+    calculateWinner(subBoards(nextBoard)[subBoard], CLASSIC_BOARD_SIZE)
+      .winner ?? null;
+  const { winner, line } = calculateUltimateWinner(metaBoard);
+
+  return {
+    board: nextBoard,
+    ultimate: {
+      metaBoard,
+      // The square played picks the opponent's sub-board, unless that
+      // sub-board is already decided, in which case they may play anywhere
+      activeBoard: metaBoard[square] === null ? square : null,
+    },
+    winner,
+    winningLine: line,
+  };
+}
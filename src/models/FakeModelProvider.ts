@@ -0,0 +1,46 @@
+import { ModelProvider, ModelRequest } from "./ModelProvider";
+
+/** Produces a reply to a request, or null to give no reply */
+export type FakeModelScript = (
+  request: ModelRequest
+) => string | null | Promise<string | null>;
+
+/**
+ * Default script: plays the first empty square of the board in the
+ * request, so games against the fake always finish.
+ */
+export const firstEmptySquare: FakeModelScript = ({ input }) => {
+  const match = input.match(/\{"board":.*\}/);
+  if (!match) return null;
+
+  const { board } = JSON.parse(match[0]) as { board: unknown[] };
+  const square = board.findIndex((value) => value === null);
+  return square === -1 ? null : String(square);
+};
+
+/**
+ * Scriptable stand-in for a model, for developing and running the bot
+ * pipeline without network access. Replies come from a list of canned
+ * replies, used in order, or from a function of the request. Every
+ * request is recorded so the prompts can be inspected.
+ */
+export class FakeModelProvider implements ModelProvider {
+  readonly model = "fake";
+  readonly requests: ModelRequest[] = [];
+  private script: FakeModelScript;
+
+  constructor(script: string[] | FakeModelScript = firstEmptySquare) {
+    if (typeof script === "function") {
+      this.script = script;
+    } else {
+      const replies = [...script];
+      this.script = () => replies.shift() ?? null;
+    }
+  }
+
+  async complete(request: ModelRequest): Promise<string | null> {
+    request.signal?.throwIfAborted();
+    this.requests.push(request);
+    return this.script(request);
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * A single request to a language model.
+ */
+export type ModelRequest = {
+  /** System prompt */
+  instructions: string;
+  /** User prompt */
+  input: string;
+  /** Cancels the request, e.g. once the move's time budget runs out */
+  signal?: AbortSignal;
+};
+
+/**
+ * A language model the bots can ask for moves. Implementations hide how a
+ * particular model is called and the shape of its response, so bots only
+ * deal in prompts and text.
+ */
+export interface ModelProvider {
+  /** Name of the model, for logging */
+  readonly model: string;
+  /**
+   * Sends a request to the model
+   * @param request - The system and user prompts
+   * @returns Promise resolving to the model's text reply, or null if it gave none
+   * @throws Error if the model could not be reached, or the signal's reason
+   *         if the request was cancelled
+   */
+  complete(request: ModelRequest): Promise<string | null>;
+}
+
+/**
+ * Stops waiting for a promise once a signal aborts. The work behind the
+ * promise carries on, but its result is ignored.
+ *
+ * @param {Promise<T>} promise - The work to wait for
+ * @param {AbortSignal} [signal] - Signal that cancels the wait
+ * @returns {Promise<T>} The promise's result
+ * @throws The signal's reason, if it aborts first
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) return promise;
+  signal.throwIfAborted();
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { WorkersAIProvider } from "./WorkersAIProvider";
+
+/** AI binding that answers every run with the given result */
+function binding(result: ResponsesOutput): Ai {
+  return { run: async () => result } as unknown as Ai;
+}
+
+const request = { instructions: "Play well", input: "Board" };
+
+describe("WorkersAIProvider", () => {
+  it("returns the text of the first completed message", async () => {
+    const provider = new WorkersAIProvider(
+      binding({
+        output: [
+          { id: "r", type: "reasoning", summary: [] },
+          {
+            id: "m1",
+            type: "message",
+            role: "assistant",
+            status: "incomplete",
+            content: [{ type: "output_text", text: "1" }],
+          },
+          {
+            id: "m2",
+            type: "message",
+            role: "assistant",
+            status: "completed",
+            content: [
+              { type: "refusal", refusal: "No" },
+              { type: "output_text", text: " 4\n" },
+            ],
+          },
+        ],
+      }),
+      "@cf/openai/gpt-oss-20b"
+    );
+
+    expect(await provider.complete(request)).toBe("4");
+  });
+
+  it("returns null when no message completed", async () => {
+    const provider = new WorkersAIProvider(
+      binding({ output: [{ id: "r", type: "reasoning", summary: [] }] }),
+      "@cf/openai/gpt-oss-20b"
+    );
+
+    expect(await provider.complete(request)).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { abortable, ModelProvider, ModelRequest } from "./ModelProvider";
+
+/** Workers AI models that take instructions and input, Responses API style */
+export type WorkersAIModel = "@cf/openai/gpt-oss-20b" | "@cf/openai/gpt-oss-120b";
+
+/**
+ * Calls a model hosted on Workers AI through the `AI` binding.
+ */
+export class WorkersAIProvider implements ModelProvider {
+  constructor(
+    private ai: Ai,
+    readonly model: WorkersAIModel
+  ) {}
+
+  async complete({
+    instructions,
+    input,
+    signal,
+  }: ModelRequest): Promise<string | null> {
+    // The binding can't cancel a run, so we stop waiting for it instead
+    const result = await abortable(
+      this.ai.run(this.model, {
+        instructions,
+        input,
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            type: "number",
+          },
+        },
+      }),
+      signal
+    );
+
+    return this.extractText(result);
+  }
+
+  /**
+   * Pulls the text of the first completed message out of a Responses API
+   * style result. Reasoning items and refusals are skipped.
+   */
+  private extractText(result: ResponsesOutput): string | null {
+    for (const output of result.output ?? []) {
+      if (output.type !== "message" || output.status !== "completed") continue;
+
+      for (const item of output.content) {
+        if (item.type === "output_text") return item.text.trim();
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,41 @@
+import { AILevel } from "@/types";
+import { ModelProvider } from "./ModelProvider";
+import { FakeModelProvider } from "./FakeModelProvider";
+import { WorkersAIModel, WorkersAIProvider } from "./WorkersAIProvider";
+
+export type { ModelProvider, ModelRequest } from "./ModelProvider";
+export { abortable } from "./ModelProvider";
+export { FakeModelProvider } from "./FakeModelProvider";
+export { WorkersAIProvider } from "./WorkersAIProvider";
+
+/** Model used by default for levels that ask a model for their moves */
+const DEFAULT_MODEL: WorkersAIModel = "@cf/openai/gpt-oss-20b";
+
+/**
+ * Model behind each level that asks a model for its moves. PERFECT only
+ * uses one on boards too large to search, so it gets the larger model.
+ */
+const MODEL_FOR_LEVEL: Partial<Record<AILevel, WorkersAIModel>> = {
+  [AILevel.EXPERT]: "@cf/openai/gpt-oss-20b",
+  [AILevel.PERFECT]: "@cf/openai/gpt-oss-120b",
+};
+
+/**
+ * Creates the model provider for an AI level. Setting `MODEL_PROVIDER` to
+ * "fake" (e.g. in `.dev.vars`) swaps every model for an offline fake.
+ *
+ * @param {Env} env - Worker environment with the AI binding
+ * @param {AILevel} level - The AI player's difficulty level
+ * @returns {ModelProvider} Provider for the level's model
+ */
+export function createModelProvider(env: Env, level: AILevel): ModelProvider {
+  switch (env.MODEL_PROVIDER) {
+    case "fake":
+      return new FakeModelProvider();
+    default:
+      return new WorkersAIProvider(
+        env.AI,
+        MODEL_FOR_LEVEL[level] ?? DEFAULT_MODEL
+      );
+  }
+}
@@ -10,14 +10,21 @@
 
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as LobbyRouteImport } from './routes/lobby'
+import { Route as ArenaRouteImport } from './routes/arena'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as GameSlugRouteImport } from './routes/game/$slug'
+import { Route as GameSlugReplayRouteImport } from './routes/game/$slug_.replay'
 
 const LobbyRoute = LobbyRouteImport.update({
   id: '/lobby',
   path: '/lobby',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ArenaRoute = ArenaRouteImport.update({
+  id: '/arena',
+  path: '/arena',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
@@ -28,35 +35,54 @@ const GameSlugRoute = GameSlugRouteImport.update({
   path: '/game/$slug',
   getParentRoute: () => rootRouteImport,
 } as any)
+const GameSlugReplayRoute = GameSlugReplayRouteImport.update({
+  id: '/game/$slug_/replay',
+  path: '/game/$slug/replay',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/arena': typeof ArenaRoute
   '/lobby': typeof LobbyRoute
   '/game/$slug': typeof GameSlugRoute
+  '/game/$slug/replay': typeof GameSlugReplayRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/arena': typeof ArenaRoute
   '/lobby': typeof LobbyRoute
   '/game/$slug': typeof GameSlugRoute
+  '/game/$slug/replay': typeof GameSlugReplayRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/arena': typeof ArenaRoute
   '/lobby': typeof LobbyRoute
   '/game/$slug': typeof GameSlugRoute
+  '/game/$slug_/replay': typeof GameSlugReplayRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/lobby' | '/game/$slug'
+  fullPaths: '/' | '/arena' | '/lobby' | '/game/$slug' | '/game/$slug/replay'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/lobby' | '/game/$slug'
-  id: '__root__' | '/' | '/lobby' | '/game/$slug'
+  to: '/' | '/arena' | '/lobby' | '/game/$slug' | '/game/$slug/replay'
+  id:
+    | '__root__'
+    | '/'
+    | '/arena'
+    | '/lobby'
+    | '/game/$slug'
+    | '/game/$slug_/replay'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  ArenaRoute: typeof ArenaRoute
   LobbyRoute: typeof LobbyRoute
   GameSlugRoute: typeof GameSlugRoute
+  GameSlugReplayRoute: typeof GameSlugReplayRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -68,6 +94,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof LobbyRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/arena': {
+      id: '/arena'
+      path: '/arena'
+      fullPath: '/arena'
+      preLoaderRoute: typeof ArenaRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -82,18 +115,28 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof GameSlugRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/game/$slug_/replay': {
+      id: '/game/$slug_/replay'
+      path: '/game/$slug/replay'
+      fullPath: '/game/$slug/replay'
+      preLoaderRoute: typeof GameSlugReplayRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  ArenaRoute: ArenaRoute,
   LobbyRoute: LobbyRoute,
   GameSlugRoute: GameSlugRoute,
+  GameSlugReplayRoute: GameSlugReplayRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
   ._addFileTypes<FileRouteTypes>()
 
+
 import type { getRouter } from './router.tsx'
 import type { createStart } from '@tanstack/react-start'
 declare module '@tanstack/react-start' {
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { createFileRoute } from "@tanstack/react-router";
+import { useServerFn } from "@tanstack/react-start";
+import { Swords } from "lucide-react";
+import { AILevel, ArenaMatch, BotFallbackStats, FallbackReason } from "@/types";
+import {
+  getArenaStandings,
+  getBotFallbackStats,
+  runArena,
+} from "@/lib/GameApi";
+import { MAX_ARENA_GAMES } from "@/lib/Arena";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+
+export const Route = createFileRoute("/arena")({
+  component: Arena,
+  loader: async () => {
+    return { standings: await getArenaStandings() };
+  },
+});
+
+const LEVELS = Object.values(AILevel);
+const FALLBACK_REASONS = Object.values(FallbackReason);
+
+/**
+ * Admin page for pitting two AI levels against each other and tracking
+ * their Elo ratings, and for checking how often each level falls back.
+ * Anyone can see the ratings; running matches and reading fallback counts
+ * take the ADMIN_TOKEN secret.
+ */
+function Arena() {
+  const loaderData = Route.useLoaderData();
+  const [standings, setStandings] = useState(loaderData.standings);
+  const [fallbacks, setFallbacks] = useState<BotFallbackStats[]>([]);
+  const [adminToken, setAdminToken] = useState("");
+  const [first, setFirst] = useState<AILevel>(AILevel.INTERMEDIATE);
+  const [second, setSecond] = useState<AILevel>(AILevel.BEGINNER);
+  const [games, setGames] = useState(10);
+  const [match, setMatch] = useState<ArenaMatch | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const runArenaFn = useServerFn(runArena);
+  const getBotFallbackStatsFn = useServerFn(getBotFallbackStats);
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const result = await runArenaFn({
+        data: { adminToken, first, second, games },
+      });
+      setMatch(result);
+      setStandings(result.standings);
+      setFallbacks(await getBotFallbackStatsFn({ data: { adminToken } }));
+    } catch (error) {
+      console.error("Arena match failed:", error);
+      alert("Arena match failed. Please try again.");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleShowFallbacks = async () => {
+    try {
+      setFallbacks(await getBotFallbackStatsFn({ data: { adminToken } }));
+    } catch (error) {
+      console.error("Loading fallbacks failed:", error);
+      alert("Loading fallbacks failed. Check the admin token.");
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md">
+      <div className="bg-card rounded-lg shadow-sm border overflow-hidden">
+        <div className="px-6 py-4 border-b flex items-center gap-2">
+          <Swords className="w-4 h-4 text-muted-foreground" />
+          <h1 className="font-semibold text-base">Bot Arena</h1>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div className="space-y-3">
+            <Label htmlFor="admin-token" className="text-sm font-medium block">
+              Admin token
+            </Label>
+            <Input
+              id="admin-token"
+              type="password"
+              autoComplete="off"
+              value={adminToken}
+              onChange={(event) => setAdminToken(event.target.value)}
+            />
+          </div>
+
+          <LevelPicker label="First" value={first} onChange={setFirst} />
+          <LevelPicker label="Second" value={second} onChange={setSecond} />
+
+          <div className="space-y-3">
+            <Label htmlFor="games" className="text-sm font-medium block">
+              Games (sides alternate)
+            </Label>
+            <Input
+              id="games"
+              type="number"
+              min={1}
+              max={MAX_ARENA_GAMES}
+              value={games}
+              onChange={(event) => setGames(Number(event.target.value))}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleRun}
+              disabled={running || !adminToken}
+              className="flex-1"
+            >
+              {running ? "Playing..." : "Run Match"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleShowFallbacks}
+              disabled={!adminToken}
+              className="flex-1"
+            >
+              Show Fallbacks
+            </Button>
+          </div>
+
+          {/* Match Result */}
+          {match && (
+            <table className="w-full text-sm">
+              <thead className="text-xs text-muted-foreground">
+                <tr>
+                  <th className="text-left font-medium py-1">Level</th>
+                  <th className="text-right font-medium">W</th>
+                  <th className="text-right font-medium">D</th>
+                  <th className="text-right font-medium">L</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-t">
+                  <td className="py-1 capitalize">{match.first}</td>
+                  <td className="text-right">{match.firstWins}</td>
+                  <td className="text-right">{match.draws}</td>
+                  <td className="text-right">{match.secondWins}</td>
+                </tr>
+                <tr className="border-t">
+                  <td className="py-1 capitalize">{match.second}</td>
+                  <td className="text-right">{match.secondWins}</td>
+                  <td className="text-right">{match.draws}</td>
+                  <td className="text-right">{match.firstWins}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+
+          {/* Ratings */}
+          <div className="space-y-2">
+            <h2 className="text-xs font-bold uppercase tracking-wide text-muted-foreground">
+              Ratings
+            </h2>
+            {standings.length === 0 ? (
+              <p className="text-muted-foreground text-center py-2 text-xs">
+                No arena games yet
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="text-xs text-muted-foreground">
+                  <tr>
+                    <th className="text-left font-medium py-1">Level</th>
+                    <th className="text-right font-medium">Elo</th>
+                    <th className="text-right font-medium">W</th>
+                    <th className="text-right font-medium">D</th>
+                    <th className="text-right font-medium">L</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {standings.map((standing) => (
+                    <tr key={standing.level} className="border-t">
+                      <td className="py-1 capitalize">{standing.level}</td>
+                      <td className="text-right font-medium">
+                        {Math.round(standing.rating)}
+                      </td>
+                      <td className="text-right">{standing.wins}</td>
+                      <td className="text-right">{standing.draws}</td>
+                      <td className="text-right">{standing.losses}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Fallbacks */}
+          {fallbacks.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-xs font-bold uppercase tracking-wide text-muted-foreground">
+                Fallbacks
+              </h2>
+              <table className="w-full text-sm">
+                <thead className="text-xs text-muted-foreground">
+                  <tr>
+                    <th className="text-left font-medium py-1">Level</th>
+                    <th className="text-right font-medium">Moves</th>
+                    {FALLBACK_REASONS.map((reason) => (
+                      <th
+                        key={reason}
+                        className="text-right font-medium capitalize"
+                      >
+                        {reason.replace("-", " ")}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {fallbacks.map((stats) => (
+                    <tr key={stats.level} className="border-t">
+                      <td className="py-1 capitalize">{stats.level}</td>
+                      <td className="text-right">{stats.moves}</td>
+                      {FALLBACK_REASONS.map((reason) => (
+                        <td key={reason} className="text-right">
+                          {stats.fallbacks[reason] ?? 0}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface LevelPickerProps {
+  label: string;
+  value: AILevel;
+  onChange: (level: AILevel) => void;
+}
+
+function LevelPicker({ label, value, onChange }: LevelPickerProps) {
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-medium block">{label}</Label>
+      <RadioGroup
+        value={value}
+        onValueChange={(level) => onChange(level as AILevel)}
+        className="grid grid-cols-2 gap-3"
+      >
+        {LEVELS.map((level) => (
+          <div
+            key={level}
+            className="flex items-center space-x-2 px-3 py-2.5 border rounded-md hover:bg-accent/50 transition-colors cursor-pointer"
+          >
+            <RadioGroupItem
+              value={level}
+              id={`${label}-${level}`}
+              className="h-5 w-5"
+            />
+            <Label
+              htmlFor={`${label}-${level}`}
+              className="font-bold cursor-pointer text-sm capitalize"
+            >
+              {level}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+}
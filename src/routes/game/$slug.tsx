@@ -1,14 +1,47 @@
 import { useEffect, useState } from "react";
 import { useServerFn } from "@tanstack/react-start";
+import { useAgent } from "agents/react";
 import { createFileRoute, redirect, useNavigate } from "@tanstack/react-router";
-import { RefreshCw, Trophy, Loader2, X, Circle } from "lucide-react";
-import { AILevel, PlayerType, SymbolType } from "@/types";
+import {
+  RefreshCw,
+  Trophy,
+  Loader2,
+  X,
+  Circle,
+  Flag,
+  Handshake,
+  Lightbulb,
+} from "lucide-react";
+import { AILevel, Hint, Move, PlayerType, SymbolType } from "@/types";
 import { GameBoard } from "@/components/GameBoard";
+import { MoveList } from "@/components/MoveList";
 import { PlayerCard } from "@/components/PlayerCard";
-import { getGameState, makeMove, switchToAI } from "@/lib/GameApi";
+import { GameState } from "@/agents/Game";
+import {
+  answerDrawOffer,
+  getGameState,
+  getHint,
+  getMoveHistory,
+  heartbeat,
+  makeMove,
+  offerDraw,
+  requestRematch,
+  resign,
+  switchToAI,
+} from "@/lib/GameApi";
+import { legalMoves, legalPieces } from "@/lib/GameEngine";
+import { nextTurn } from "@/lib/GameRules";
+import { getSeat, saveSeat } from "@/lib/PlayerSession";
+import { seriesScore, seriesWinner, winsNeeded } from "@/lib/Series";
+import { timeLeft } from "@/lib/Clock";
+import { HEARTBEAT_INTERVAL, RECONNECT_GRACE_PERIOD } from "@/lib/Presence";
+import { HINTS_PER_GAME } from "@/lib/Hints";
+import { getVariant, resultText, sideName } from "@/variants";
 
 export const Route = createFileRoute("/game/$slug")({
   component: Game,
+  // Start afresh when following a rematch to its new slug
+  remountDeps: ({ params }) => params,
   loader: async ({ params }) => {
     try {
       const state = await getGameState({ data: { slug: params.slug } });
@@ -24,15 +57,24 @@ function Game() {
   const [gameState, setGameState] = useState(initialState);
   const [showSwitchPrompt, setShowSwitchPrompt] = useState(false);
   const [timeWaiting, setTimeWaiting] = useState(0);
+  const [moves, setMoves] = useState<Move[]>([]);
+  const [chosenPiece, setChosenPiece] = useState<SymbolType | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [hint, setHint] = useState<Hint | null>(null);
 
-  const getGameStateFn = useServerFn(getGameState);
+  const getMoveHistoryFn = useServerFn(getMoveHistory);
   const makeMoveFn = useServerFn(makeMove);
   const switchToAIFn = useServerFn(switchToAI);
+  const requestRematchFn = useServerFn(requestRematch);
+  const resignFn = useServerFn(resign);
+  const offerDrawFn = useServerFn(offerDraw);
+  const answerDrawOfferFn = useServerFn(answerDrawOffer);
+  const heartbeatFn = useServerFn(heartbeat);
+  const getHintFn = useServerFn(getHint);
 
-  // Get player's symbol from session
-  const mySymbol = sessionStorage.getItem(
-    `game_${slug}_symbol`
-  ) as SymbolType | null;
+  // Get player's seat from session
+  const seat = getSeat(slug);
+  const mySymbol = seat?.symbol ?? null;
 
   // Redirect if invalid (3+ players or missing symbol)
   useEffect(() => {
@@ -41,20 +83,61 @@ function Game() {
     }
   }, [mySymbol, navigate]);
 
-  // Poll for game updates every 2 seconds
+  // Pushed states and the replies to our own actions can arrive in either
+  // order; never step back to an older position
+  const showState = (state: GameState) =>
+    setGameState((current) =>
+      state.updatedAt < current.updatedAt ? current : state
+    );
+
+  // The game agent sends its state when we connect and after every change,
+  // so moves and opponents joining show up as they happen
+  useAgent<GameState>({
+    agent: "GameAgent",
+    name: slug,
+    onStateUpdate: showState,
+  });
+
+  // Refresh move history whenever the game state changes; any hint was for
+  // the position before it did
   useEffect(() => {
-    const interval = setInterval(async () => {
-      const state = await getGameStateFn({ data: { slug } });
-      setGameState(state);
+    getMoveHistoryFn({ data: { slug } }).then(setMoves);
+    setHint(null);
+  }, [slug, gameState.updatedAt]);
 
-      // Remove from lobby if game is complete
-      if (state.game?.winner) {
-        // Could trigger lobby state update here
-      }
-    }, 2000);
+  // Let the game know we're still here while it is being played
+  const playing = !gameState.waitingForPlayers && !gameState.game?.winner;
+  useEffect(() => {
+    if (!seat || !playing) return;
 
-    return () => clearInterval(interval);
-  }, [slug]);
+    const beat = () =>
+      heartbeatFn({ data: { slug, seatToken: seat.token } }).catch((error) =>
+        console.error("Heartbeat failed:", error)
+      );
+    beat();
+    const timer = setInterval(beat, HEARTBEAT_INTERVAL);
+    return () => clearInterval(timer);
+  }, [slug, playing]);
+
+  // Tick the countdowns while a clock is running or a player is away
+  const countingDown =
+    !!gameState.game?.clock?.deadline ||
+    Object.keys(gameState.disconnected ?? {}).length > 0;
+  useEffect(() => {
+    if (!countingDown) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [countingDown]);
+
+  // Follow the rematch once both players have agreed to it. Symbols swap,
+  // but the seat token carries over.
+  const rematchSlug = gameState.rematch?.slug;
+  useEffect(() => {
+    if (!rematchSlug || !seat) return;
+    saveSeat(rematchSlug, { symbol: nextTurn(seat.symbol), token: seat.token });
+    navigate({ to: "/game/$slug", params: { slug: rematchSlug } });
+  }, [rematchSlug]);
 
   // 10-second timeout for human opponent
   useEffect(() => {
@@ -77,32 +160,95 @@ function Game() {
   }, [gameState.waitingForPlayers]);
 
   const handleSwitchToAI = async (level: AILevel) => {
-    await switchToAIFn({ data: { slug, aiLevel: level } });
+    try {
+      showState(await switchToAIFn({ data: { slug, aiLevel: level } }));
+    } catch (error) {
+      // Most likely an opponent joined first
+      console.error("Switch to AI failed:", error);
+    }
     setShowSwitchPrompt(false);
-    const state = await getGameStateFn({ data: { slug } });
-    setGameState(state);
   };
 
-  const handleSquareClick = async (index: number) => {
-    if (!mySymbol || !gameState.game) return;
-    if (gameState.game.board[index] !== null) return;
-    if (gameState.game.winner) return;
+  const handleRematch = async () => {
+    if (!seat) return;
+
+    try {
+      const state = await requestRematchFn({
+        data: { slug, seatToken: seat.token },
+      });
+      showState(state);
+    } catch (error) {
+      console.error("Rematch failed:", error);
+    }
+  };
+
+  const handleResign = async () => {
+    if (!seat || !confirm("Resign this game?")) return;
+
+    try {
+      showState(
+        await resignFn({ data: { slug, seatToken: seat.token } })
+      );
+    } catch (error) {
+      console.error("Resign failed:", error);
+    }
+  };
+
+  const handleOfferDraw = async () => {
+    if (!seat) return;
 
-    // Determine whose turn it is
-    const moveCount = gameState.game.board.filter(Boolean).length;
-    const currentTurn = moveCount % 2 === 0 ? SymbolType.X : SymbolType.O;
+    try {
+      showState(
+        await offerDrawFn({ data: { slug, seatToken: seat.token } })
+      );
+    } catch (error) {
+      console.error("Draw offer failed:", error);
+    }
+  };
 
-    if (currentTurn !== mySymbol) return;
+  const handleAnswerDraw = async (accept: boolean) => {
+    if (!seat) return;
+
+    try {
+      showState(
+        await answerDrawOfferFn({
+          data: { slug, seatToken: seat.token, accept },
+        })
+      );
+    } catch (error) {
+      console.error("Answering draw offer failed:", error);
+    }
+  };
+
+  const handleHint = async () => {
+    if (!seat) return;
+
+    try {
+      const suggestion = await getHintFn({
+        data: { slug, seatToken: seat.token },
+      });
+      setHint(suggestion);
+      setChosenPiece(suggestion.piece);
+    } catch (error) {
+      console.error("Hint failed:", error);
+    }
+  };
+
+  const handleSquareClick = async (index: number) => {
+    if (!seat || !gameState.game) return;
+    if (!legalMoves(gameState.game).includes(index)) return;
+    if (gameState.game.currentTurn !== seat.symbol) return;
 
     try {
       const state = await makeMoveFn({
         data: {
           slug,
           position: index,
-          playerSymbol: mySymbol,
+          seatToken: seat.token,
+          piece: chosenPiece ?? seat.symbol,
         },
       });
-      setGameState(state);
+      showState(state);
     } catch (error) {
       console.error("Move failed:", error);
     }
@@ -112,9 +258,21 @@ function Game() {
     return <div>Loading...</div>;
   }
 
-  const moveCount = gameState.game.board.filter(Boolean).length;
-  const currentTurn = moveCount % 2 === 0 ? SymbolType.X : SymbolType.O;
+  const currentTurn = gameState.game.currentTurn;
   const isMyTurn = currentTurn === mySymbol;
+  const variant = getVariant(gameState.game.variant);
+  const myPieces = legalPieces(gameState.game, mySymbol);
+  const series = gameState.series;
+  const score = series && seriesScore(series, gameState.game);
+  const seriesDecidedBy = series && seriesWinner(series, gameState.game);
+  const rematchAcceptedBy = gameState.rematch?.acceptedBy ?? [];
+  const clock = gameState.game.clock;
+  const inPlay = !gameState.waitingForPlayers && !gameState.game.winner;
+  const drawOffer = gameState.game.drawOffer;
+  const opponent = gameState.game.players[nextTurn(mySymbol)];
+  const opponentAwaySince = gameState.disconnected?.[nextTurn(mySymbol)];
+  const hintsLeft = HINTS_PER_GAME - (gameState.hintsUsed?.[mySymbol] ?? 0);
+  const hintAssisted = Object.values(gameState.hintsUsed ?? {}).some(Boolean);
 
   return (
     <div className="w-full max-w-md">
@@ -122,7 +280,25 @@ function Game() {
         {/* Header with prominent player symbol */}
         <div className="px-6 py-4 border-b">
           <div className="flex items-center justify-between mb-3">
-            <h1 className="font-semibold text-base text-muted-foreground">Game: {slug}</h1>
+            <div>
+              <h1 className="font-semibold text-base text-muted-foreground">Game: {slug}</h1>
+              <p className="text-xs text-muted-foreground">
+                <span className="font-bold">{variant.name}</span> ·{" "}
+                {variant.description}
+              </p>
+              {series && (
+                <p className="text-xs text-muted-foreground">
+                  Game {series.gameNumber} · Best of {series.bestOf} (first to{" "}
+                  {winsNeeded(series.bestOf)})
+                </p>
+              )}
+              {hintAssisted && (
+                <p className="flex items-center gap-1 text-xs text-amber-600">
+                  <Lightbulb className="w-3 h-3" />
+                  Hint-assisted game
+                </p>
+              )}
+            </div>
             <button
               onClick={() => navigate({ to: "/lobby" })}
               className="p-2 hover:bg-accent rounded-md transition"
@@ -141,7 +317,9 @@ function Game() {
             </div>
             <div className="flex-1">
               <p className="text-xs font-medium text-muted-foreground">You are playing as</p>
-              <p className="text-base font-bold text-foreground">{mySymbol}</p>
+              <p className="text-base font-bold text-foreground">
+                {sideName(variant.id, mySymbol)}
+              </p>
             </div>
           </div>
         </div>
@@ -154,11 +332,21 @@ function Game() {
               player={gameState.game.players.X}
               isActive={currentTurn === SymbolType.X}
               isCurrentPlayer={mySymbol === SymbolType.X}
+              role={variant.roles?.[SymbolType.X]}
+              score={score?.X}
+              timeLeft={
+                clock && timeLeft(clock, SymbolType.X, currentTurn, now)
+              }
             />
             <PlayerCard
               player={gameState.game.players.O}
               isActive={currentTurn === SymbolType.O}
               isCurrentPlayer={mySymbol === SymbolType.O}
+              role={variant.roles?.[SymbolType.O]}
+              score={score?.O}
+              timeLeft={
+                clock && timeLeft(clock, SymbolType.O, currentTurn, now)
+              }
             />
           </div>
 
@@ -172,10 +360,40 @@ function Game() {
             </div>
           )}
 
+          {/* Piece Picker, for variants where players choose X or O */}
+          {!gameState.waitingForPlayers && myPieces.length > 1 && (
+            <div className="flex items-center justify-center gap-2">
+              <span className="text-xs font-medium text-muted-foreground">
+                Place
+              </span>
+              {myPieces.map((piece) => (
+                <button
+                  key={piece}
+                  onClick={() => setChosenPiece(piece)}
+                  className={`w-10 h-10 flex items-center justify-center rounded-md border-2 transition ${
+                    (chosenPiece ?? mySymbol) === piece
+                      ? "border-primary bg-primary/10"
+                      : "border-border hover:bg-accent"
+                  }`}
+                >
+                  {piece === SymbolType.X ? (
+                    <X className="w-5 h-5 text-blue-500" strokeWidth={3} />
+                  ) : (
+                    <Circle className="w-4 h-4 text-rose-500" strokeWidth={3} />
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Game Board */}
           {!gameState.waitingForPlayers && (
             <GameBoard
               board={gameState.game.board}
+              width={gameState.game.boardSize.width}
+              ultimate={gameState.game.ultimate}
+              winningLine={gameState.game.winningLine}
+              hintSquare={hint?.position}
               onSquareClick={handleSquareClick}
               disabled={!!gameState.game.winner}
               myTurn={isMyTurn}
@@ -187,9 +405,9 @@ function Game() {
             {gameState.game.winner ? (
               <div className="flex items-center gap-2 text-primary font-semibold text-sm">
                 <Trophy className="w-4 h-4" />
-                {gameState.game.winner === "Draw"
-                  ? "It's a Draw!"
-                  : `${gameState.game.winner} Wins!`}
+                {resultText(gameState.game)}
+                {seriesDecidedBy &&
+                  ` ${seriesDecidedBy === mySymbol ? "You take" : "Opponent takes"} the series!`}
               </div>
             ) : isMyTurn ? (
               <p className="text-primary font-semibold text-sm">Your Turn</p>
@@ -201,14 +419,131 @@ function Game() {
             )}
           </div>
 
-          {/* Back to Lobby */}
+          {/* Hint */}
+          {inPlay && hint && (
+            <div className="flex items-center gap-2 px-4 py-3 bg-amber-50 border border-amber-200 rounded-md text-sm">
+              <Lightbulb className="w-4 h-4 text-amber-500" />
+              <span>
+                Try square {hint.position}
+                {hint.piece !== mySymbol && ` with ${hint.piece}`}:{" "}
+                {hint.reason}
+              </span>
+            </div>
+          )}
+
+          {/* Opponent Disconnected */}
+          {inPlay && opponentAwaySince && (
+            <div className="text-center px-4 py-3 bg-accent rounded-md">
+              <p className="text-sm font-medium">Opponent disconnected</p>
+              <p className="text-xs text-muted-foreground">
+                They forfeit in{" "}
+                {Math.max(
+                  0,
+                  Math.ceil(
+                    (new Date(opponentAwaySince).getTime() +
+                      RECONNECT_GRACE_PERIOD -
+                      now) /
+                      1000
+                  )
+                )}
+                s unless they come back
+              </p>
+            </div>
+          )}
+
+          {/* Draw Offer from the Opponent */}
+          {inPlay && drawOffer && drawOffer !== mySymbol && (
+            <div className="flex items-center justify-between gap-3 px-4 py-3 bg-accent rounded-md">
+              <p className="text-sm font-medium">Opponent offers a draw</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleAnswerDraw(true)}
+                  className="px-3 py-1.5 bg-primary text-primary-foreground rounded-md text-xs font-medium hover:bg-primary/90 transition"
+                >
+                  Accept
+                </button>
+                <button
+                  onClick={() => handleAnswerDraw(false)}
+                  className="px-3 py-1.5 bg-secondary text-secondary-foreground rounded-md text-xs font-medium hover:bg-secondary/80 transition"
+                >
+                  Decline
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Hint / Resign / Offer Draw */}
+          {inPlay && (
+            <div className="flex gap-2">
+              <button
+                onClick={handleHint}
+                disabled={!isMyTurn || hintsLeft <= 0 || !!hint}
+                className="flex-1 flex items-center justify-center gap-2 py-2 bg-secondary text-secondary-foreground rounded-md text-sm font-medium hover:bg-secondary/80 transition disabled:opacity-60"
+              >
+                <Lightbulb className="w-4 h-4" />
+                Hint ({hintsLeft} left)
+              </button>
+              {opponent.type === PlayerType.HUMAN && (
+                <button
+                  onClick={handleOfferDraw}
+                  disabled={!!drawOffer}
+                  className="flex-1 flex items-center justify-center gap-2 py-2 bg-secondary text-secondary-foreground rounded-md text-sm font-medium hover:bg-secondary/80 transition disabled:opacity-60"
+                >
+                  <Handshake className="w-4 h-4" />
+                  {drawOffer === mySymbol ? "Draw offered" : "Offer Draw"}
+                </button>
+              )}
+              <button
+                onClick={handleResign}
+                className="flex-1 flex items-center justify-center gap-2 py-2 bg-secondary text-secondary-foreground rounded-md text-sm font-medium hover:bg-secondary/80 transition"
+              >
+                <Flag className="w-4 h-4" />
+                Resign
+              </button>
+            </div>
+          )}
+
+          {/* Move History */}
+          {!gameState.waitingForPlayers && (
+            <div className="space-y-2">
+              <h2 className="text-xs font-bold uppercase tracking-wide text-muted-foreground">
+                Moves
+              </h2>
+              <MoveList moves={moves} />
+            </div>
+          )}
+
+          {/* Rematch / Back to Lobby / Replay */}
           {gameState.game.winner && (
-            <button
-              onClick={() => navigate({ to: "/lobby" })}
-              className="w-full py-2.5 bg-primary text-primary-foreground rounded-md font-medium hover:bg-primary/90 transition text-sm"
-            >
-              Back to Lobby
-            </button>
+            <div className="space-y-2">
+              <button
+                onClick={handleRematch}
+                disabled={rematchAcceptedBy.includes(mySymbol)}
+                className="w-full py-2.5 bg-primary text-primary-foreground rounded-md font-medium hover:bg-primary/90 transition text-sm disabled:opacity-60"
+              >
+                {rematchAcceptedBy.includes(mySymbol)
+                  ? "Waiting for opponent to accept..."
+                  : rematchAcceptedBy.length > 0
+                    ? "Opponent wants a rematch · Accept"
+                    : series && !seriesDecidedBy
+                      ? "Next Game"
+                      : "Rematch"}
+              </button>
+              <button
+                onClick={() => navigate({ to: "/lobby" })}
+                className="w-full py-2.5 bg-secondary text-secondary-foreground rounded-md font-medium hover:bg-secondary/80 transition text-sm"
+              >
+                Back to Lobby
+              </button>
+              <button
+                onClick={() =>
+                  navigate({ to: "/game/$slug/replay", params: { slug } })
+                }
+                className="w-full py-2.5 bg-secondary text-secondary-foreground rounded-md font-medium hover:bg-secondary/80 transition text-sm"
+              >
+                Watch Replay
+              </button>
+            </div>
           )}
         </div>
       </div>
@@ -240,6 +575,18 @@ function Game() {
               >
                 Expert AI
               </button>
+              <button
+                onClick={() => handleSwitchToAI(AILevel.PERFECT)}
+                className="w-full py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition text-sm font-medium"
+              >
+                Perfect AI
+              </button>
+              <button
+                onClick={() => handleSwitchToAI(AILevel.ADAPTIVE)}
+                className="w-full py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition text-sm font-medium"
+              >
+                Adaptive AI
+              </button>
               <button
                 onClick={() => setShowSwitchPrompt(false)}
                 className="w-full py-2 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition text-sm font-medium"
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { createFileRoute, redirect, useNavigate } from "@tanstack/react-router";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Lightbulb,
+  Pause,
+  Play,
+  SkipBack,
+  SkipForward,
+  Trophy,
+} from "lucide-react";
+import { SymbolType } from "@/types";
+import { GameBoard } from "@/components/GameBoard";
+import { PlayerCard } from "@/components/PlayerCard";
+import { Button } from "@/components/ui/button";
+import { getGameState, getMoveHistory } from "@/lib/GameApi";
+import { replayGame } from "@/lib/GameEngine";
+import { getVariant, resultText } from "@/variants";
+
+/** Delay between moves while autoplaying, in milliseconds */
+const AUTOPLAY_INTERVAL = 1000;
+
+export const Route = createFileRoute("/game/$slug_/replay")({
+  component: Replay,
+  loader: async ({ params }) => {
+    try {
+      const [state, moves] = await Promise.all([
+        getGameState({ data: { slug: params.slug } }),
+        getMoveHistory({ data: { slug: params.slug } }),
+      ]);
+      if (!state.game) throw new Error("Game not found");
+      return { state, moves, slug: params.slug };
+    } catch (error) {
+      throw redirect({ to: "/lobby" });
+    }
+  },
+});
+function Replay() {
+  const navigate = useNavigate();
+  const { state, moves, slug } = Route.useLoaderData();
+  const [step, setStep] = useState(moves.length);
+  const [playing, setPlaying] = useState(false);
+
+  // Advance one move at a time while playing, stopping at the last move
+  useEffect(() => {
+    if (!playing) return;
+
+    const timer = setInterval(() => {
+      setStep((prev) => {
+        if (prev >= moves.length) {
+          setPlaying(false);
+          return prev;
+        }
+        return prev + 1;
+      });
+    }, AUTOPLAY_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [playing, moves.length]);
+
+  const handlePlayPause = () => {
+    // Restart from the beginning when play is pressed at the end
+    if (!playing && step >= moves.length) {
+      setStep(0);
+    }
+    setPlaying((prev) => !prev);
+  };
+
+  const goTo = (next: number) => {
+    setPlaying(false);
+    setStep(Math.max(0, Math.min(moves.length, next)));
+  };
+
+  // Games can end off the board, by resignation, agreement or timeout, so
+  // the final step shows the recorded result rather than the replayed one
+  let replayed = replayGame(state.game!, moves, step);
+  if (step === moves.length) {
+    const { winner, resultReason, winningLine } = state.game!;
+    replayed = { ...replayed, winner, resultReason, winningLine };
+  }
+  const { players, winner } = replayed;
+  const variant = getVariant(replayed.variant);
+  const lastMove = step > 0 ? moves[step - 1] : null;
+
+  return (
+    <div className="w-full max-w-md">
+      <div className="bg-card rounded-lg shadow-sm border overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b">
+          <h1 className="font-semibold text-base text-muted-foreground">
+            Replay: {slug}
+          </h1>
+          <p className="text-xs text-muted-foreground">
+            <span className="font-bold">{variant.name}</span> ·{" "}
+            {variant.description}
+          </p>
+          {moves.some((move) => move.hinted) && (
+            <p className="flex items-center gap-1 text-xs text-amber-600">
+              <Lightbulb className="w-3 h-3" />
+              Hint-assisted game
+            </p>
+          )}
+        </div>
+
+        <div className="p-6 space-y-5">
+          {/* Player Cards */}
+          <div className="grid grid-cols-2 gap-3">
+            <PlayerCard
+              player={players.X}
+              isActive={lastMove?.player === SymbolType.X}
+              role={variant.roles?.[SymbolType.X]}
+            />
+            <PlayerCard
+              player={players.O}
+              isActive={lastMove?.player === SymbolType.O}
+              role={variant.roles?.[SymbolType.O]}
+            />
+          </div>
+
+          <GameBoard
+            board={replayed.board}
+            width={replayed.boardSize.width}
+            ultimate={replayed.ultimate}
+            winningLine={replayed.winningLine}
+            onSquareClick={() => {}}
+            disabled
+            myTurn={false}
+          />
+
+          {/* Status */}
+          <div className="text-center h-10 flex items-center justify-center text-sm">
+            {winner ? (
+              <div className="flex items-center gap-2 text-primary font-semibold">
+                <Trophy className="w-4 h-4" />
+                {resultText(replayed)}
+              </div>
+            ) : lastMove ? (
+              <p className="text-muted-foreground">
+                Move {lastMove.moveNumber}: {lastMove.player}{" "}
+                {lastMove.piece === lastMove.player
+                  ? "took square"
+                  : `placed ${lastMove.piece} on square`}{" "}
+                {lastMove.position}
+                {lastMove.hinted && " after a hint"}
+              </p>
+            ) : (
+              <p className="text-muted-foreground">Start of game</p>
+            )}
+          </div>
+
+          {/* Scrubber */}
+          <div className="space-y-1">
+            <input
+              type="range"
+              min={0}
+              max={moves.length}
+              value={step}
+              onChange={(e) => goTo(Number(e.target.value))}
+              className="w-full accent-primary"
+              aria-label="Move"
+            />
+            <p className="text-xs text-muted-foreground text-center">
+              {step} / {moves.length}
+            </p>
+          </div>
+
+          {/* Controls */}
+          <div className="flex justify-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => goTo(0)}
+              disabled={step === 0}
+              aria-label="First move"
+            >
+              <SkipBack />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => goTo(step - 1)}
+              disabled={step === 0}
+              aria-label="Previous move"
+            >
+              <ChevronLeft />
+            </Button>
+            <Button
+              size="icon"
+              onClick={handlePlayPause}
+              disabled={moves.length === 0}
+              aria-label={playing ? "Pause" : "Play"}
+            >
+              {playing ? <Pause /> : <Play />}
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => goTo(step + 1)}
+              disabled={step === moves.length}
+              aria-label="Next move"
+            >
+              <ChevronRight />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => goTo(moves.length)}
+              disabled={step === moves.length}
+              aria-label="Last move"
+            >
+              <SkipForward />
+            </Button>
+          </div>
+
+          <Button
+            variant="secondary"
+            className="w-full"
+            onClick={() => navigate({ to: "/lobby" })}
+          >
+            Back to Lobby
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,23 @@
 import { useEffect, useState } from "react";
 import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import { useServerFn } from "@tanstack/react-start";
+import { useAgent } from "agents/react";
 import { GamesList } from "@/components/GameList";
-import { AILevel, PlayerType } from "@/types";
-import { getLobbyState, createGame, joinGame } from "@/lib/GameApi";
+import { PersonaPicker } from "@/components/PersonaPicker";
+import { LobbyState } from "@/agents/Lobby";
+import { AILevel, PersonaInput, PlayerType, Variant } from "@/types";
+import {
+  getLobbyState,
+  createGame,
+  createPersona,
+  getPersonas,
+  joinGame,
+} from "@/lib/GameApi";
+import { BOARD_PRESETS } from "@/lib/GameRules";
+import { SERIES_LENGTHS } from "@/lib/Series";
+import { TIME_CONTROL_PRESETS } from "@/lib/Clock";
+import { VARIANT_LIST, getVariant } from "@/variants";
+import { getPlayerId, saveSeat } from "@/lib/PlayerSession";
 import { Button } from "@/components/ui/button";
 import {
   Accordion,
@@ -17,46 +31,77 @@ import { Label } from "@/components/ui/label";
 export const Route = createFileRoute("/lobby")({
   component: Lobby,
   loader: async () => {
-    return await getLobbyState();
+    const [lobbyState, personas] = await Promise.all([
+      getLobbyState(),
+      getPersonas(),
+    ]);
+    return { lobbyState, personas };
   },
 });
 
 function Lobby() {
   const navigate = useNavigate();
   const loaderData = Route.useLoaderData();
-  const [lobbyState, setLobbyState] = useState(loaderData);
+  const [lobbyState, setLobbyState] = useState(loaderData.lobbyState);
+  const [personas, setPersonas] = useState(loaderData.personas);
   const [opponentType, setOpponentType] = useState<PlayerType>(PlayerType.AI);
   const [aiLevel, setAiLevel] = useState<AILevel>(AILevel.EXPERT);
+  const [personaId, setPersonaId] = useState<string | null>(null);
+  const [variant, setVariant] = useState<Variant>(Variant.CLASSIC);
+  const [boardPreset, setBoardPreset] = useState(BOARD_PRESETS[0].id);
+  const [bestOf, setBestOf] = useState(SERIES_LENGTHS[0]);
+  const [timePreset, setTimePreset] = useState(TIME_CONTROL_PRESETS[0].id);
   const [creating, setCreating] = useState(false);
+  const [connected, setConnected] = useState(true);
 
-  const getLobbyStateFn = useServerFn(getLobbyState);
   const createGameFn = useServerFn(createGame);
+  const createPersonaFn = useServerFn(createPersona);
   const joinGameFn = useServerFn(joinGame);
 
-  // Poll for lobby updates every 3 seconds
-  useEffect(() => {
-    const interval = setInterval(async () => {
-      console.log("Polling for lobby updates...");
-      const state = await getLobbyStateFn();
-      console.log("Lobby state updated:", state);
-      setLobbyState(state);
-    }, 3000);
+  // The lobby agent sends its lists when we connect and whenever a game is
+  // created, joined or finished. After a dropped connection the socket
+  // reconnects by itself and is sent the lists afresh, so nothing missed
+  // in the meantime lingers.
+  const lobbySocket = useAgent<LobbyState>({
+    agent: "LobbyAgent",
+    name: "lobby",
+    onStateUpdate: setLobbyState,
+    onOpen: () => setConnected(true),
+    onClose: () => setConnected(false),
+  });
 
-    return () => clearInterval(interval);
-  }, []);
+  // Don't wait out the reconnect backoff once the network is back
+  useEffect(() => {
+    const reconnect = () => lobbySocket.reconnect();
+    window.addEventListener("online", reconnect);
+    return () => window.removeEventListener("online", reconnect);
+  }, [lobbySocket]);
 
   const handleCreateGame = async () => {
     setCreating(true);
     try {
-      const { slug, creatorSymbol } = await createGameFn({
+      const { slug, creatorSymbol, seatToken } = await createGameFn({
         data: {
           opponentType,
           aiLevel: opponentType === "ai" ? aiLevel : undefined,
+          personaId:
+            opponentType === "ai" && variant === Variant.CLASSIC
+              ? (personaId ?? undefined)
+              : undefined,
+          variant,
+          boardSize: getVariant(variant).configurableBoard
+            ? BOARD_PRESETS.find((preset) => preset.id === boardPreset)?.size
+            : undefined,
+          bestOf,
+          timeControl: TIME_CONTROL_PRESETS.find(
+            (preset) => preset.id === timePreset
+          )?.timeControl,
+          playerId: getPlayerId(),
         },
       });
 
-      // Store player symbol in session
-      sessionStorage.setItem(`game_${slug}_symbol`, creatorSymbol);
+      // Store player seat in session
+      saveSeat(slug, { symbol: creatorSymbol, token: seatToken });
 
       navigate({ to: "/game/$slug", params: { slug } });
     } catch (error) {
@@ -67,10 +112,16 @@ function Lobby() {
     }
   };
 
+  const handleCreatePersona = async (input: PersonaInput) => {
+    const persona = await createPersonaFn({ data: input });
+    setPersonas([persona, ...personas]);
+    return persona;
+  };
+
   const handleJoinGame = async (slug: string) => {
     try {
-      const { playerSymbol } = await joinGameFn({ data: { slug } });
-      sessionStorage.setItem(`game_${slug}_symbol`, playerSymbol);
+      const { playerSymbol, seatToken } = await joinGameFn({ data: { slug } });
+      saveSeat(slug, { symbol: playerSymbol, token: seatToken });
       navigate({ to: "/game/$slug", params: { slug } });
     } catch (error) {
       console.error("Failed to join game:", error);
@@ -80,6 +131,11 @@ function Lobby() {
 
   return (
     <div className="w-full max-w-4xl">
+      {!connected && (
+        <p className="mb-3 text-xs text-center text-muted-foreground">
+          Connection lost. Reconnecting...
+        </p>
+      )}
       <Accordion
         type="multiple"
         defaultValue={["create-game", "seeking-players"]}
@@ -127,7 +183,7 @@ function Lobby() {
                   <RadioGroup
                     value={aiLevel}
                     onValueChange={(value) => setAiLevel(value as AILevel)}
-                    className="flex justify-between gap-3"
+                    className="flex flex-wrap justify-between gap-3"
                   >
                     <div className="flex items-center space-x-2 flex-1 px-3 py-2.5 border rounded-md hover:bg-accent/50 transition-colors cursor-pointer">
                       <RadioGroupItem value={AILevel.BEGINNER} id="beginner" className="h-5 w-5" />
@@ -160,10 +216,160 @@ function Lobby() {
                         Expert
                       </Label>
                     </div>
+                    <div className="flex items-center space-x-2 flex-1 px-3 py-2.5 border rounded-md hover:bg-accent/50 transition-colors cursor-pointer">
+                      <RadioGroupItem value={AILevel.PERFECT} id="perfect" className="h-5 w-5" />
+                      <Label
+                        htmlFor="perfect"
+                        className="font-bold cursor-pointer text-sm"
+                      >
+                        Perfect
+                      </Label>
+                    </div>
+                    <div className="flex items-center space-x-2 flex-1 px-3 py-2.5 border rounded-md hover:bg-accent/50 transition-colors cursor-pointer">
+                      <RadioGroupItem value={AILevel.ADAPTIVE} id="adaptive" className="h-5 w-5" />
+                      <Label
+                        htmlFor="adaptive"
+                        className="font-bold cursor-pointer text-sm"
+                      >
+                        Adaptive
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+              )}
+
+              {/* Persona Selector; custom opponents play classic rules */}
+              {opponentType === PlayerType.AI &&
+                variant === Variant.CLASSIC && (
+                  <PersonaPicker
+                    personas={personas}
+                    value={personaId}
+                    onChange={setPersonaId}
+                    onCreate={handleCreatePersona}
+                  />
+                )}
+
+              {/* Variant Selector */}
+              <div className="space-y-3">
+                <Label className="text-sm font-medium block">Rules</Label>
+                <RadioGroup
+                  value={variant}
+                  onValueChange={(value) => setVariant(value as Variant)}
+                  className="grid grid-cols-1 sm:grid-cols-2 gap-3"
+                >
+                  {VARIANT_LIST.map((rules) => (
+                    <div
+                      key={rules.id}
+                      className="flex items-start space-x-2 px-3 py-2.5 border rounded-md hover:bg-accent/50 transition-colors cursor-pointer"
+                    >
+                      <RadioGroupItem
+                        value={rules.id}
+                        id={`variant-${rules.id}`}
+                        className="h-5 w-5 mt-0.5"
+                      />
+                      <Label
+                        htmlFor={`variant-${rules.id}`}
+                        className="cursor-pointer text-sm flex flex-col items-start gap-0.5"
+                      >
+                        <span className="font-bold">{rules.name}</span>
+                        <span className="text-xs font-normal text-muted-foreground">
+                          {rules.description}
+                        </span>
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+
+              {/* Board Size Selector */}
+              {getVariant(variant).configurableBoard && (
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium block">Board</Label>
+                  <RadioGroup
+                    value={boardPreset}
+                    onValueChange={setBoardPreset}
+                    className="flex justify-between gap-3"
+                  >
+                    {BOARD_PRESETS.map((preset) => (
+                      <div
+                        key={preset.id}
+                        className="flex items-center space-x-2 flex-1 px-3 py-2.5 border rounded-md hover:bg-accent/50 transition-colors cursor-pointer"
+                      >
+                        <RadioGroupItem
+                          value={preset.id}
+                          id={`board-${preset.id}`}
+                          className="h-5 w-5"
+                        />
+                        <Label
+                          htmlFor={`board-${preset.id}`}
+                          className="font-bold cursor-pointer text-sm"
+                        >
+                          {preset.label}
+                        </Label>
+                      </div>
+                    ))}
                   </RadioGroup>
                 </div>
               )}
 
+              {/* Time Control Selector */}
+              <div className="space-y-3">
+                <Label className="text-sm font-medium block">Clock</Label>
+                <RadioGroup
+                  value={timePreset}
+                  onValueChange={setTimePreset}
+                  className="grid grid-cols-2 sm:grid-cols-4 gap-3"
+                >
+                  {TIME_CONTROL_PRESETS.map((preset) => (
+                    <div
+                      key={preset.id}
+                      className="flex items-center space-x-2 px-3 py-2.5 border rounded-md hover:bg-accent/50 transition-colors cursor-pointer"
+                    >
+                      <RadioGroupItem
+                        value={preset.id}
+                        id={`clock-${preset.id}`}
+                        className="h-5 w-5"
+                      />
+                      <Label
+                        htmlFor={`clock-${preset.id}`}
+                        className="font-bold cursor-pointer text-sm"
+                      >
+                        {preset.label}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+
+              {/* Series Length Selector */}
+              <div className="space-y-3">
+                <Label className="text-sm font-medium block">Match</Label>
+                <RadioGroup
+                  value={String(bestOf)}
+                  onValueChange={(value) => setBestOf(Number(value))}
+                  className="flex justify-between gap-3"
+                >
+                  {SERIES_LENGTHS.map((length) => (
+                    <div
+                      key={length}
+                      className="flex items-center space-x-2 flex-1 px-3 py-2.5 border rounded-md hover:bg-accent/50 transition-colors cursor-pointer"
+                    >
+                      <RadioGroupItem
+                        value={String(length)}
+                        id={`best-of-${length}`}
+                        className="h-5 w-5"
+                      />
+                      <Label
+                        htmlFor={`best-of-${length}`}
+                        className="font-bold cursor-pointer text-sm"
+                      >
+                        {length === 1 ? "Single game" : `Best of ${length}`}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+
               <Button
                 onClick={handleCreateGame}
                 disabled={creating}
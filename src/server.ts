@@ -14,6 +14,8 @@ import {
   createStartHandler,
   defaultStreamHandler,
 } from "@tanstack/react-start/server";
+import { getAgentByName, routeAgentRequest } from "agents";
+import type { LobbyAgent } from "@/agents/Lobby";
 
 // Export your Agents for Cloudflare to find
 export { LobbyAgent } from "@/agents/Lobby";
@@ -28,8 +30,96 @@ const handler = createStartHandler(({ request, router, responseHeaders }) => {
   });
 });
 
+/** WebSocket close codes that may be reported but not sent */
+const RESERVED_CLOSE_CODES = [1005, 1006, 1015];
+
+/**
+ * Closes one end of a relayed socket the way the other end was closed.
+ * Either end may already be closed, which is fine.
+ */
+function forwardClose(socket: WebSocket, event: CloseEvent): void {
+  try {
+    if (RESERVED_CLOSE_CODES.includes(event.code)) socket.close();
+    else socket.close(event.code, event.reason);
+  } catch {
+    // Already closed
+  }
+}
+
+/**
+ * Checks that a socket is being opened to an agent that exists: the one
+ * lobby, or a game the lobby created. Connecting to any other name would
+ * create a new Durable Object for it.
+ *
+ * @param {Env} env - Worker environment with the agent bindings
+ * @param {string} party - The agent, in kebab case
+ * @param {string} name - The agent instance's name
+ * @returns {Promise<boolean>} True if the socket may be opened
+ */
+async function isKnownAgent(
+  env: Env,
+  party: string,
+  name: string
+): Promise<boolean> {
+  switch (party) {
+    case "lobby-agent":
+      return name === "lobby";
+    case "game-agent": {
+      const lobby = await getAgentByName<Env, LobbyAgent>(
+        env.LobbyAgent,
+        "lobby"
+      );
+      return await lobby.hasGame(name);
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Hands the browser a socket that only carries messages from the agent.
+ * Agents apply any state a client sends them as is, but every change to a
+ * game has to go through the server functions, which check seat tokens,
+ * so anything the browser sends is dropped. For the same reason no agent
+ * method is marked `@callable`.
+ *
+ * @param {Response} response - The agent's answer to the upgrade request
+ * @returns {Response} The upgrade response for the browser
+ */
+function listenOnly(response: Response): Response {
+  const upstream = response.webSocket;
+  if (!upstream) return response;
+
+  const [client, server] = Object.values(new WebSocketPair());
+  upstream.accept();
+  server.accept();
+
+  upstream.addEventListener("message", (event) => server.send(event.data));
+  upstream.addEventListener("close", (event) => forwardClose(server, event));
+  server.addEventListener("close", (event) => forwardClose(upstream, event));
+
+  return new Response(null, {
+    status: 101,
+    headers: response.headers,
+    webSocket: client,
+  });
+}
+
 export default {
   async fetch(request: Request, env: Env) {
+    // Browsers follow game and lobby state over WebSockets at
+    // /agents/<agent>/<name>. Only the lobby and the games it created can
+    // be followed, and plain requests to an agent are not served.
+    const agentResponse = await routeAgentRequest(request, env, {
+      onBeforeConnect: async (_request, { party, name }) => {
+        if (!(await isKnownAgent(env, party, name))) {
+          return new Response("Not found", { status: 404 });
+        }
+      },
+      onBeforeRequest: () => new Response("Not found", { status: 404 }),
+    });
+    if (agentResponse) return listenOnly(agentResponse);
+
     // We pass the Cloudflare 'env' into the 'context' property.
     // TanStack Start merges this with the router context.
     return handler(request, {
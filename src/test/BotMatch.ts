@@ -0,0 +1,126 @@
+import {
+  Board,
+  Game,
+  GameConfig,
+  PlayerType,
+  SymbolType,
+} from "@/types";
+import { BaseBotPlayer, BotPlayer } from "@/bots/BotPlayer";
+import { createGameBoard, legalMoves, playMove } from "@/lib/GameEngine";
+
+/** Worker environment for bots under test; none of them read it offline */
+export const testEnv = {} as Env;
+
+/**
+ * Deterministic stand-in for `Math.random` (mulberry32), so games between
+ * bots that play at random can be repeated exactly.
+ *
+ * @param {number} seed - Any integer
+ * @returns {() => number} Generator of numbers in [0, 1)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Creates a game ready for X's first move.
+ *
+ * @param {Pick<GameConfig, "variant" | "boardSize">} [config] - Defaults to classic 3x3
+ * @returns {Game} The new game
+ */
+export function newGame(
+  config: Pick<GameConfig, "variant" | "boardSize"> = {}
+): Game {
+  return {
+    ...createGameBoard(config),
+    players: {
+      X: { name: "X", symbol: SymbolType.X, type: PlayerType.HUMAN, pending: false },
+      O: { name: "O", symbol: SymbolType.O, type: PlayerType.HUMAN, pending: false },
+    },
+    currentTurn: SymbolType.X,
+  };
+}
+
+/**
+ * Creates a classic game from a board drawn as a string, one character per
+ * square: "X", "O", or "-" for empty.
+ *
+ * @param {string} squares - The board, e.g. "XOOXX--O-"
+ * @param {SymbolType} currentTurn - The side to move
+ * @returns {Game} The game in that position
+ */
+export function gameFromBoard(squares: string, currentTurn: SymbolType): Game {
+  const board: Board = [...squares].map((square) =>
+    square === "-" ? null : (square as SymbolType)
+  );
+  return { ...newGame(), board, currentTurn };
+}
+
+/**
+ * Plays any legal square, chosen with `Math.random`.
+ */
+export class RandomBot extends BaseBotPlayer {
+  protected async generateMove(game: Game): Promise<number | null> {
+    const moves = legalMoves(game);
+    return moves[Math.floor(Math.random() * moves.length)] ?? null;
+  }
+}
+
+/**
+ * Plays a game between two bots to the end.
+ *
+ * @param {BotPlayer} x - Bot playing X
+ * @param {BotPlayer} o - Bot playing O
+ * @param {Game} [game] - Starting position; defaults to a new classic game
+ * @returns {Promise<SymbolType | "Draw">} The result
+ */
+export async function playGame(
+  x: BotPlayer,
+  o: BotPlayer,
+  game: Game = newGame()
+): Promise<SymbolType | "Draw"> {
+  while (!game.winner) {
+    const bot = game.currentTurn === SymbolType.X ? x : o;
+    const position = await bot.makeMove(game);
+    const piece = bot.choosePiece(game, position);
+    game = playMove(game, game.currentTurn, position, piece);
+  }
+  return game.winner;
+}
+
+/**
+ * Plays a match between two bots, which take turns playing X.
+ *
+ * @param {BotPlayer} first - Bot playing X in the first game
+ * @param {BotPlayer} second - Its opponent
+ * @param {number} games - Number of games
+ * @returns {Promise<{ firstWins: number; secondWins: number; draws: number }>} The results
+ */
+export async function playMatch(
+  first: BotPlayer,
+  second: BotPlayer,
+  games: number
+): Promise<{ firstWins: number; secondWins: number; draws: number }> {
+  const result = { firstWins: 0, secondWins: 0, draws: 0 };
+
+  for (let i = 0; i < games; i++) {
+    const firstPlays = i % 2 === 0 ? SymbolType.X : SymbolType.O;
+    const winner =
+      firstPlays === SymbolType.X
+        ? await playGame(first, second)
+        : await playGame(second, first);
+
+    if (winner === "Draw") result.draws++;
+    else if (winner === firstPlays) result.firstWins++;
+    else result.secondWins++;
+  }
+
+  return result;
+}
@@ -16,6 +16,12 @@ export type HumanPlayer = BasePlayer & {
 export type AIPlayer = BasePlayer & {
   type: PlayerType.AI;
   level: AILevel;
+  /** Share of best moves, from 0 to 1, for adaptive AI players; set for
+   * each game from its opponent's record */
+  strength?: number;
+  /** Player-written character and strategy the AI plays to, in place of
+   * the standard prompt */
+  persona?: Persona;
 };
 
 export type Player = HumanPlayer | AIPlayer;
@@ -34,18 +40,255 @@ export enum AILevel {
   BEGINNER = "beginner",
   INTERMEDIATE = "intermediate",
   EXPERT = "expert",
+  /** Searches the whole game tree; unbeatable on 3x3 boards */
+  PERFECT = "perfect",
+  /** Mixes best and random moves, tuned to the player's recent results */
+  ADAPTIVE = "adaptive",
+}
+
+/**
+ * Rule sets a game can be played under. See `src/variants` for the rules
+ * behind each one.
+ */
+export enum Variant {
+  CLASSIC = "classic",
+  MISERE = "misere",
+  WILD = "wild",
+  ORDER_AND_CHAOS = "order-and-chaos",
+  ULTIMATE = "ultimate",
+}
+
+/**
+ * How a game ended.
+ */
+export enum ResultReason {
+  /** A line decided the game */
+  LINE = "line",
+  /** The board filled up; a draw, except in variants where that wins */
+  BOARD_FULL = "board-full",
+  /** Both players agreed to a draw */
+  AGREEMENT = "agreement",
+  RESIGNATION = "resignation",
+  /** The loser ran out of time */
+  TIMEOUT = "timeout",
+  /** The loser left the game and did not come back in time */
+  ABANDONED = "abandoned",
+}
+
+/**
+ * Why a bot played its fallback move instead of the one it came up with.
+ */
+export enum FallbackReason {
+  /** The model took too long to answer */
+  TIMEOUT = "timeout",
+  /** The reply held no move */
+  PARSE_FAILURE = "parse-failure",
+  /** The move named a square that cannot be played */
+  ILLEGAL_SQUARE = "illegal-square",
+  /** Anything else went wrong, such as the model being unreachable */
+  ERROR = "error",
 }
 
 export type Board = (SymbolType | null)[];
 
+/**
+ * Geometry and win condition of an m,n,k game: a `width` x `height` grid
+ * where `winLength` in a row (horizontally, vertically or diagonally) wins.
+ * Classic tic-tac-toe is 3,3,3. Squares are indexed row by row from 0.
+ */
+export type BoardSize = {
+  width: number;
+  height: number;
+  winLength: number;
+};
+
+/**
+ * Meta-board state for ultimate tic-tac-toe. The board itself is nine
+ * classic sub-boards stored back to back in `Game.board`, so square `n` of
+ * sub-board `b` is position `b * 9 + n`.
+ */
+export type UltimateState = {
+  /** Result of each sub-board, forming the 3x3 meta-board */
+  metaBoard: (SymbolType | "Draw" | null)[];
+  /** Sub-board the next move must be played in, or null for any open sub-board */
+  activeBoard: number | null;
+};
+
+/**
+ * Time limits for a game. Either or both may be set; a side that runs out
+ * of time on either loses.
+ */
+export type TimeControl = {
+  /** Seconds allowed for each move */
+  perMove?: number;
+  /** Seconds each side has for all of its moves together */
+  perGame?: number;
+};
+
+/**
+ * Running clock of a timed game. Times are server timestamps; the deadline
+ * of the turn in progress is enforced by an alarm on the game's agent.
+ */
+export type Clock = {
+  timeControl: TimeControl;
+  /** Milliseconds left on each side's game clock, not counting the turn
+   * in progress; only kept when there is a per-game limit */
+  remaining?: Record<SymbolType, number>;
+  /** When the turn in progress started; unset while the clock is stopped */
+  turnStartedAt?: string;
+  /** When the side to move runs out of time; unset while the clock is stopped */
+  deadline?: string;
+};
+
 export type Game = {
   players: Players;
+  variant: Variant;
+  /** For ultimate games, the size of each sub-board */
+  boardSize: BoardSize;
   board: Board;
+  ultimate?: UltimateState;
   currentTurn: SymbolType;
   winner?: SymbolType | "Draw" | null;
+  /** Why the game ended, once it has */
+  resultReason?: ResultReason;
+  /** Squares of the line that decided the game; for ultimate games, the
+   * sub-boards (0-8) of the winning meta-board line */
+  winningLine?: number[];
+  /** Present in timed games */
+  clock?: Clock;
+  /** Side with a draw offer awaiting an answer */
+  drawOffer?: SymbolType;
+};
+
+/**
+ * A single move as recorded in a game's move history.
+ */
+export type Move = {
+  moveNumber: number;
+  player: SymbolType;
+  /** The symbol placed, which differs from `player` only in variants where
+   * players choose their piece each move */
+  piece: SymbolType;
+  position: number;
+  createdAt: string;
+  /** Whether the player asked for a hint before making the move */
+  hinted: boolean;
+};
+
+/**
+ * A suggested move for a human player, with a short reason for it.
+ */
+export type Hint = {
+  position: number;
+  /** The piece to place, which matters only in variants where players choose */
+  piece: SymbolType;
+  reason: string;
+};
+
+/**
+ * Progress of a best-of-N match series, as seen from one of its games.
+ * Players swap symbols every game, so the score is given for whoever holds
+ * each symbol in that game.
+ */
+export type Series = {
+  /** Slug of the game that opened the series */
+  id: string;
+  bestOf: number;
+  /** 1-based number of the game within the series */
+  gameNumber: number;
+  /** Games won before this one by the player holding each symbol */
+  score: Record<SymbolType, number>;
+};
+
+/**
+ * Rematch agreement for a finished game.
+ */
+export type Rematch = {
+  /** Sides that have asked for a rematch; AI players always agree */
+  acceptedBy: SymbolType[];
+  /** Slug of the new game, once both sides have agreed */
+  slug?: string;
 };
 
 export type GameConfig = {
   opponentType: PlayerType;
   aiLevel?: AILevel;
+  /** Defaults to classic */
+  variant?: Variant;
+  /** Defaults to a classic 3x3, three-in-a-row board; ignored by variants
+   * with a fixed board */
+  boardSize?: BoardSize;
+  /** Number of games in a match series; defaults to a single game */
+  bestOf?: number;
+  /** Defaults to an untimed game */
+  timeControl?: TimeControl;
+  /** Identifies the creator across games, so adaptive AI can follow their
+   * results */
+  playerId?: string;
+  /** Custom AI opponent to play, from those saved in the lobby; takes the
+   * place of `aiLevel` */
+  personaId?: string;
+};
+
+/**
+ * Record and Elo rating of one AI level in bot-vs-bot arena matches.
+ */
+export type ArenaStanding = {
+  level: AILevel;
+  rating: number;
+  wins: number;
+  draws: number;
+  losses: number;
+};
+
+/**
+ * Outcome of an arena match between two AI levels. The levels take turns
+ * playing X.
+ */
+export type ArenaMatch = {
+  first: AILevel;
+  second: AILevel;
+  games: number;
+  firstWins: number;
+  secondWins: number;
+  draws: number;
+  /** Every level's standing once the match is over, highest rated first */
+  standings: ArenaStanding[];
+};
+
+/**
+ * What the fallback stats count a bot's moves under: the AI level that
+ * played them, or "persona" for custom AI opponents.
+ */
+export type BotLabel = AILevel | "persona";
+
+/**
+ * How often the bots playing at an AI level, or as custom AI opponents,
+ * fell back to their heuristic move, and why.
+ */
+export type BotFallbackStats = {
+  level: BotLabel;
+  /** AI moves made at this level */
+  moves: number;
+  fallbacks: Partial<Record<FallbackReason, number>>;
+};
+
+/**
+ * What a player writes to create a custom AI opponent.
+ */
+export type PersonaInput = {
+  name: string;
+  /** Who the AI is: its character, voice and temperament */
+  persona: string;
+  /** How the AI should approach the game */
+  strategy: string;
+};
+
+/**
+ * Custom AI opponent saved in the lobby, which anyone can pick as their
+ * opponent.
+ */
+export type Persona = PersonaInput & {
+  id: string;
+  createdAt: string;
 };
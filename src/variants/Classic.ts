@@ -0,0 +1,31 @@
+import { SymbolType, Variant } from "@/types";
+import { nextTurn } from "@/lib/GameRules";
+import { VariantRules } from "./VariantRules";
+import { createMnkBoard, emptySquares, moveOutcome, placePiece } from "./mnk";
+
+/**
+ * Standard play: players alternate placing their own symbol, and the first
+ * to complete a line wins.
+ */
+export const Classic: VariantRules = {
+  id: Variant.CLASSIC,
+  name: "Classic",
+  description: "Get enough in a row to win.",
+  configurableBoard: true,
+
+  createBoard: (boardSize) => createMnkBoard(Variant.CLASSIC, boardSize),
+  legalMoves: emptySquares,
+  pieces: (symbol: SymbolType) => [symbol],
+
+  applyMove(game, symbol, position, piece) {
+    const board = placePiece(game.board, position, piece);
+    const { result, line } = moveOutcome(board, game.boardSize, position);
+    return {
+      ...game,
+      board,
+      winner: result,
+      winningLine: line,
+      currentTurn: nextTurn(symbol),
+    };
+  },
+};
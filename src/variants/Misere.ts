@@ -0,0 +1,30 @@
+import { SymbolType, Variant } from "@/types";
+import { nextTurn } from "@/lib/GameRules";
+import { VariantRules } from "./VariantRules";
+import { createMnkBoard, emptySquares, moveOutcome, placePiece } from "./mnk";
+
+/**
+ * Misère (or "toe-tac-tic"): completing a line of your own symbol loses.
+ */
+export const Misere: VariantRules = {
+  id: Variant.MISERE,
+  name: "Misère",
+  description: "Complete a line and you lose.",
+  configurableBoard: true,
+
+  createBoard: (boardSize) => createMnkBoard(Variant.MISERE, boardSize),
+  legalMoves: emptySquares,
+  pieces: (symbol: SymbolType) => [symbol],
+
+  applyMove(game, symbol, position, piece) {
+    const board = placePiece(game.board, position, piece);
+    const { result, line } = moveOutcome(board, game.boardSize, position);
+    return {
+      ...game,
+      board,
+      winner: result && result !== "Draw" ? nextTurn(result) : result,
+      winningLine: line,
+      currentTurn: nextTurn(symbol),
+    };
+  },
+};
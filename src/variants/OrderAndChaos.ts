@@ -0,0 +1,41 @@
+import { BoardSize, SymbolType, Variant } from "@/types";
+import { nextTurn } from "@/lib/GameRules";
+import { VariantRules } from "./VariantRules";
+import { createMnkBoard, emptySquares, moveOutcome, placePiece } from "./mnk";
+
+/** Order and Chaos is always played on a 6x6 board, five in a row */
+const ORDER_AND_CHAOS_BOARD: BoardSize = { width: 6, height: 6, winLength: 5 };
+
+/**
+ * Order and Chaos: both sides may place X or O. Order (the X seat) wins by
+ * making five in a row of either symbol; Chaos (the O seat) wins by
+ * filling the board without that happening. There are no draws.
+ */
+export const OrderAndChaos: VariantRules = {
+  id: Variant.ORDER_AND_CHAOS,
+  name: "Order and Chaos",
+  description: "Order wants five in a row of either symbol; Chaos wants to stop it.",
+  configurableBoard: false,
+  roles: {
+    [SymbolType.X]: "Order",
+    [SymbolType.O]: "Chaos",
+  },
+
+  createBoard: () =>
+    createMnkBoard(Variant.ORDER_AND_CHAOS, ORDER_AND_CHAOS_BOARD),
+  legalMoves: emptySquares,
+  pieces: () => [SymbolType.X, SymbolType.O],
+
+  applyMove(game, symbol, position, piece) {
+    const board = placePiece(game.board, position, piece);
+    const { result, line } = moveOutcome(board, game.boardSize, position);
+    return {
+      ...game,
+      board,
+      winner:
+        result === "Draw" ? SymbolType.O : result ? SymbolType.X : undefined,
+      winningLine: line,
+      currentTurn: nextTurn(symbol),
+    };
+  },
+};
@@ -0,0 +1,47 @@
+import { SymbolType, Variant } from "@/types";
+import { CLASSIC_BOARD_SIZE, nextTurn } from "@/lib/GameRules";
+import {
+  ULTIMATE_SQUARES,
+  createUltimateState,
+  legalUltimateMoves,
+  playUltimateMove,
+} from "@/lib/UltimateRules";
+import { VariantRules } from "./VariantRules";
+
+/**
+ * Ultimate tic-tac-toe: nine classic boards in a 3x3 meta-board. The square
+ * you play sends your opponent to the matching sub-board, and winning
+ * three sub-boards in a row wins the game.
+ */
+export const Ultimate: VariantRules = {
+  id: Variant.ULTIMATE,
+  name: "Ultimate",
+  description: "Nine boards in one; your square picks your opponent's board.",
+  configurableBoard: false,
+
+  createBoard: () => ({
+    variant: Variant.ULTIMATE,
+    boardSize: CLASSIC_BOARD_SIZE,
+    board: new Array(ULTIMATE_SQUARES).fill(null),
+    ultimate: createUltimateState(),
+  }),
+  legalMoves: (game) => legalUltimateMoves(game.board, game.ultimate!),
+  pieces: (symbol: SymbolType) => [symbol],
+
+  applyMove(game, symbol, position, piece) {
+    const { board, ultimate, winner, winningLine } = playUltimateMove(
+      game.board,
+      game.ultimate!,
+      piece,
+      position
+    );
+    return {
+      ...game,
+      board,
+      ultimate,
+      winner,
+      winningLine,
+      currentTurn: nextTurn(symbol),
+    };
+  },
+};
@@ -0,0 +1,63 @@
+import { BoardSize, Game, SymbolType, Variant } from "@/types";
+
+/**
+ * The parts of a game that depend on the variant and board.
+ */
+export type GameBoardState = Pick<
+  Game,
+  "variant" | "boardSize" | "board" | "ultimate"
+>;
+
+/**
+ * A rule set games can be played under. Everything that differs between
+ * variants goes through here: the board, which moves are legal, which
+ * pieces a player may place, and what a finished line means.
+ *
+ * Variants only deal with the rules themselves; checking that it is the
+ * mover's turn and that the game is still going is left to the caller.
+ */
+export interface VariantRules {
+  readonly id: Variant;
+  /** Display name, e.g. "Misère" */
+  readonly name: string;
+  /** One-line summary of how the variant differs from classic play */
+  readonly description: string;
+  /** Whether players choose the board size, or the variant fixes it */
+  readonly configurableBoard: boolean;
+  /** Names for each side when they are not simply X and O */
+  readonly roles?: Record<SymbolType, string>;
+
+  /**
+   * Creates the empty board for a new game
+   * @param boardSize - Requested board size; ignored if not configurable
+   */
+  createBoard(boardSize: BoardSize): GameBoardState;
+
+  /**
+   * Lists the positions that may be played next
+   * @param game - The current game, which is not yet over
+   */
+  legalMoves(game: Game): number[];
+
+  /**
+   * Lists the pieces a side may place on its turn
+   * @param symbol - The side to move
+   */
+  pieces(symbol: SymbolType): SymbolType[];
+
+  /**
+   * Places a piece and returns the resulting game, with the winner set and
+   * the turn passed on. The position and piece have already been checked
+   * against `legalMoves` and `pieces`.
+   * @param game - The current game
+   * @param symbol - The side making the move
+   * @param position - The position to play
+   * @param piece - The piece being placed
+   */
+  applyMove(
+    game: Game,
+    symbol: SymbolType,
+    position: number,
+    piece: SymbolType
+  ): Game;
+}
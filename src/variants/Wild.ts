@@ -0,0 +1,31 @@
+import { SymbolType, Variant } from "@/types";
+import { nextTurn } from "@/lib/GameRules";
+import { VariantRules } from "./VariantRules";
+import { createMnkBoard, emptySquares, moveOutcome, placePiece } from "./mnk";
+
+/**
+ * Wild tic-tac-toe: each move places either an X or an O, and whoever
+ * completes a line of either symbol wins.
+ */
+export const Wild: VariantRules = {
+  id: Variant.WILD,
+  name: "Wild",
+  description: "Place X or O each turn; any line you complete wins.",
+  configurableBoard: true,
+
+  createBoard: (boardSize) => createMnkBoard(Variant.WILD, boardSize),
+  legalMoves: emptySquares,
+  pieces: () => [SymbolType.X, SymbolType.O],
+
+  applyMove(game, symbol, position, piece) {
+    const board = placePiece(game.board, position, piece);
+    const { result, line } = moveOutcome(board, game.boardSize, position);
+    return {
+      ...game,
+      board,
+      winner: result && result !== "Draw" ? symbol : result,
+      winningLine: line,
+      currentTurn: nextTurn(symbol),
+    };
+  },
+};
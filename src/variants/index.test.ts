@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { Game, Variant } from "@/types";
+import { CLASSIC_BOARD_SIZE } from "@/lib/GameRules";
+import { getVariant, withVariantDefaults } from "./index";
+import { newGame } from "@/test/BotMatch";
+
+describe("games saved before variants existed", () => {
+  // Stored as they were, with neither a variant nor a board size
+  const legacy = { ...newGame() } as Partial<Game>;
+  delete legacy.variant;
+  delete legacy.boardSize;
+
+  it("are played by classic rules", () => {
+    expect(getVariant(undefined)).toBe(getVariant(Variant.CLASSIC));
+  });
+
+  it("get the classic variant and the 3x3 board", () => {
+    const game = withVariantDefaults(legacy as Game);
+
+    expect(game.variant).toBe(Variant.CLASSIC);
+    expect(game.boardSize).toEqual(CLASSIC_BOARD_SIZE);
+    expect(getVariant(game.variant).legalMoves(game)).toHaveLength(9);
+  });
+
+  it("keep the variant and board they were saved with", () => {
+    const game = newGame({
+      variant: Variant.MISERE,
+      boardSize: { width: 4, height: 4, winLength: 3 },
+    });
+
+    expect(withVariantDefaults(game)).toEqual(game);
+  });
+});
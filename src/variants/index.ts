@@ -0,0 +1,100 @@
+import { Game, ResultReason, SymbolType, Variant } from "@/types";
+import { CLASSIC_BOARD_SIZE } from "@/lib/GameRules";
+import { VariantRules } from "./VariantRules";
+import { Classic } from "./Classic";
+import { Misere } from "./Misere";
+import { Wild } from "./Wild";
+import { OrderAndChaos } from "./OrderAndChaos";
+import { Ultimate } from "./Ultimate";
+
+export type { GameBoardState, VariantRules } from "./VariantRules";
+
+/**
+ * Every registered variant, keyed by id. Adding a variant means adding an
+ * entry to `Variant` and registering its rules here.
+ */
+const VARIANTS: Record<Variant, VariantRules> = {
+  [Variant.CLASSIC]: Classic,
+  [Variant.MISERE]: Misere,
+  [Variant.WILD]: Wild,
+  [Variant.ORDER_AND_CHAOS]: OrderAndChaos,
+  [Variant.ULTIMATE]: Ultimate,
+};
+
+/** Variants in the order they are offered when creating a game */
+export const VARIANT_LIST: VariantRules[] = Object.values(VARIANTS);
+
+/**
+ * Looks up the rules for a variant. Games and lobby entries saved before
+ * variants existed have none; they are classic games.
+ *
+ * @param {Variant | undefined} id - The variant id
+ * @returns {VariantRules} The variant's rules
+ * @throws {Error} If no such variant is registered
+ */
+export function getVariant(id: Variant | undefined): VariantRules {
+  const variant = VARIANTS[id ?? Variant.CLASSIC];
+  if (!variant) {
+    throw new Error(`Unknown variant: ${id}`);
+  }
+  return variant;
+}
+
+/**
+ * Fills in what games saved before variants existed leave out: they are
+ * classic games, and were all played on the 3x3 board.
+ *
+ * @param {Game} game - A stored game
+ * @returns {Game} The game with its variant and board size set
+ */
+export function withVariantDefaults(game: Game): Game {
+  return {
+    ...game,
+    variant: game.variant ?? Variant.CLASSIC,
+    boardSize: game.boardSize ?? CLASSIC_BOARD_SIZE,
+  };
+}
+
+/**
+ * Name to show for a side, e.g. "Order" rather than "X" in Order and Chaos.
+ *
+ * @param {Variant} id - The variant id
+ * @param {SymbolType} symbol - The side
+ * @returns {string} The variant's role name for the side, or the symbol
+ */
+export function sideName(id: Variant, symbol: SymbolType): string {
+  return getVariant(id).roles?.[symbol] ?? symbol;
+}
+
+/**
+ * Describes how a finished game ended, e.g. "Order Wins on time!".
+ *
+ * @param {Game} game - A game with a winner
+ * @returns {string} The result, with the reason when it is not the usual one
+ */
+export function resultText(game: Game): string {
+  const { winner, resultReason } = game;
+
+  if (winner === "Draw") {
+    switch (resultReason) {
+      case ResultReason.AGREEMENT:
+        return "Draw by agreement";
+      case ResultReason.ABANDONED:
+        return "Abandoned by both players";
+      default:
+        return "It's a Draw!";
+    }
+  }
+
+  const side = sideName(game.variant, winner!);
+  switch (resultReason) {
+    case ResultReason.RESIGNATION:
+      return `${side} Wins by resignation!`;
+    case ResultReason.TIMEOUT:
+      return `${side} Wins on time!`;
+    case ResultReason.ABANDONED:
+      return `${side} Wins by forfeit!`;
+    default:
+      return `${side} Wins!`;
+  }
+}
@@ -0,0 +1,50 @@
+import { Board, BoardSize, Game, SymbolType, Variant } from "@/types";
+import {
+  createBoard,
+  findLineThrough,
+  validateBoardSize,
+} from "@/lib/GameRules";
+import { GameBoardState } from "./VariantRules";
+
+/**
+ * Building blocks shared by the variants played on a single m,n,k board.
+ */
+
+export function createMnkBoard(
+  variant: Variant,
+  boardSize: BoardSize
+): GameBoardState {
+  validateBoardSize(boardSize);
+  return { variant, boardSize, board: createBoard(boardSize) };
+}
+
+export function emptySquares(game: Game): number[] {
+  return game.board.flatMap((value, i) => (value === null ? [i] : []));
+}
+
+export function placePiece(
+  board: Board,
+  position: number,
+  piece: SymbolType
+): Board {
+  const next = [...board];
+  next[position] = piece;
+  return next;
+}
+
+/**
+ * Reports what the move just played at `position` completed: the symbol of
+ * a finished line through it along with its squares, "Draw" if it filled
+ * the board without one, or undefined. Variants decide what a finished
+ * line means for the result.
+ */
+export function moveOutcome(
+  board: Board,
+  size: BoardSize,
+  position: number
+): { result: SymbolType | "Draw" | undefined; line?: number[] } {
+  const line = findLineThrough(board, size, position);
+  if (line) return { result: board[line[0]]!, line };
+  if (board.every(Boolean)) return { result: "Draw" };
+  return { result: undefined };
+}
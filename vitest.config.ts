@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+import viteTsConfigPaths from "vite-tsconfig-paths";
+
+// Tests run in plain Node. The Cloudflare plugin in vite.config.ts is left
+// out, as it needs a logged-in wrangler for the remote AI binding.
+export default defineConfig({
+  plugins: [
+    viteTsConfigPaths({
+      projects: ["./tsconfig.json"],
+    }),
+  ],
+  test: {
+    environment: "node",
+  },
+});
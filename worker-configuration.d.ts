@@ -1,5 +1,5 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: f8a7a49db7e5f35bf1654bd0f58c416b)
+// Generated by Wrangler by running `wrangler types --env-file .dev.vars.example` (hash: a860ec876547ef28020933ddfa53f46d)
 // Runtime types generated with workerd@1.20251217.0 2025-09-02 nodejs_compat
 declare namespace Cloudflare {
 	interface GlobalProps {
@@ -7,12 +7,20 @@ declare namespace Cloudflare {
 		durableNamespaces: "GameAgent" | "LobbyAgent";
 	}
 	interface Env {
+		MODEL_PROVIDER: string;
+		ADMIN_TOKEN: string;
 		GameAgent: DurableObjectNamespace<import("./src/server").GameAgent>;
 		LobbyAgent: DurableObjectNamespace<import("./src/server").LobbyAgent>;
 		AI: Ai;
 	}
 }
 interface Env extends Cloudflare.Env {}
+type StringifyValues<EnvType extends Record<string, unknown>> = {
+	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
+};
+declare namespace NodeJS {
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "MODEL_PROVIDER" | "ADMIN_TOKEN">> {}
+}
 
 // Begin runtime types
 /*! *****************************************************************************